@@ -11,37 +11,172 @@
  *   pi install npm:@netandreus/pi-cursor-provider
  *   # Then /model cursor/<model-id>, e.g. /model cursor/sonnet-4.5-thinking
  *
- * Configuration env vars:
- *   CURSOR_AGENT_PATH   Path to the Cursor Agent CLI binary (default: "agent")
- *   CURSOR_API_KEY      API key for Cursor (used by the agent subprocess if set)
+ * Configuration env vars (also settable in cursor-provider.json, see src/config.ts):
+ *   CURSOR_AGENT_PATH            Path to the Cursor Agent CLI binary (default: "agent")
+ *   CURSOR_API_KEY               API key for Cursor (used by the agent subprocess if set)
+ *   CURSOR_WORKSPACE             Workspace root for the agent (default: Pi's cwd)
+ *   CURSOR_EXTRA_ARGS            Extra arguments for `agent --print`
+ *   CURSOR_DISCOVERY_TIMEOUT_MS  Timeout for `agent models` (default: 15000)
+ *   CURSOR_TURN_TIMEOUT_MS       Longest one assistant message may take (default: 0, off)
+ *   CURSOR_IDLE_TIMEOUT_MS       Longest the agent may stay silent (default: 600000; 0 = off)
+ *   CURSOR_KILL_GRACE_MS         Delay between SIGTERM and SIGKILL (default: 5000)
+ *   CURSOR_RETRIES               Retries of rate-limit/network failures (default: 2)
+ *   CURSOR_RETRY_BASE_DELAY_MS   First retry delay, doubled per retry (default: 1000)
+ *   CURSOR_FALLBACK_MODELS       Fallback chains, e.g. "opus-4.6=sonnet-4.6,auto *=auto"
+ *   CURSOR_RECORD                Record runs for /cursor-replay (default: 0)
+ *   CURSOR_ISOLATION             Run the agent in a scratch worktree: off | turn | session
+ *   CURSOR_PROMPT_TRANSPORT      How the prompt reaches the CLI: auto | stdin | file
+ *   CURSOR_CONTEXT_STRATEGY      Context-window budgeting: compact | elide | off
+ *   CURSOR_CONTEXT_KEEP_TURNS    Latest user turns never compacted (default: 2)
+ *   CURSOR_TRANSCRIPT_FORMAT     How history is written into the prompt: xml | plain
+ *   CURSOR_PI_TOOLS              Pi tools exposed to Cursor over MCP: custom | all | off
+ *   CURSOR_PERMISSION_PROFILE    read-only | edits-only | ask | full (default: full)
+ *   CURSOR_MODE_VARIANTS         Register <model>:ask and <model>:plan variants (default: 1)
+ *   CURSOR_STATUS_LINE           Show account, model and turn timing in the footer (default: 1)
+ *   CURSOR_PROFILES              Account profiles as JSON, each registered as cursor-<name>
+ *   CURSOR_PROFILE               Profile used by the `cursor` provider
  */
 
-import { spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { existsSync, readdirSync } from "node:fs";
+import { join, resolve } from "node:path";
 import { createInterface } from "node:readline";
 import type {
   Api,
   AssistantMessage,
+  AssistantMessageEvent,
   AssistantMessageEventStream,
   Context,
+  ImageContent,
+  Message,
   Model,
   SimpleStreamOptions,
   TextContent,
+  ThinkingContent,
+  Tool,
+  ToolCall,
 } from "@mariozechner/pi-ai";
 import { createAssistantMessageEventStream } from "@mariozechner/pi-ai";
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import {
+  AUTH_HINT,
+  type AuthState,
+  formatAuthState,
+  isAuthError,
+  runAgentStatus,
+  startAgentLogin,
+  waitForLogin,
+} from "./src/auth.js";
+import { type BudgetOptions, fitToBudget } from "./src/budget.js";
+import { DEFAULT_CONFIG, formatConfig, type LoadedConfig, loadProviderConfig, type ProviderConfig } from "./src/config.js";
+import { type ConfigOverlayOptions, createConfigOverlay, type McpServerConfig } from "./src/cursor-config.js";
+import {
+  captureBaseline,
+  createTurnFiles,
+  FILE_CHANGING_TOOLS,
+  formatFileChanges,
+  type GitBaseline,
+  lastTurns,
+  recordTurnFiles,
+  snapshotFile,
+  type TurnFiles,
+  undoableTurns,
+  undoTurns,
+} from "./src/file-history.js";
+import {
+  attachImage,
+  createImageAttachments,
+  type ImageAttachments,
+  imageReference,
+  removeImageAttachments,
+  writeImageAttachments,
+} from "./src/images.js";
+import {
+  type CursorModelDef,
+  isModelCacheStale,
+  type ModelCacheEntry,
+  type ModelSource,
+  modelCacheAccount,
+  readModelCache,
+  sameModels,
+  writeModelCache,
+} from "./src/model-cache.js";
+import {
+  loadModelOverrides,
+  type ModelOverride,
+  type ModelOverrides,
+  type ModelVariants,
+  REASONING_LEVELS,
+  type ReasoningLevel,
+} from "./src/model-overrides.js";
+import { deriveModelFamilies } from "./src/model-variants.js";
+import {
+  applyChanges,
+  createIsolatedWorkspace,
+  describeChanges,
+  diffChange,
+  type IsolatedWorkspace,
+  listChanges,
+  removeIsolatedWorkspace,
+  type WorkspaceChange,
+} from "./src/isolation.js";
+import {
+  formatMcpServers,
+  isServerName,
+  listMcpServers,
+  MCP_SUBCOMMANDS,
+  runAgentMcp,
+  setServerAllowed,
+} from "./src/mcp-admin.js";
+import { type McpToolResult, PI_TOOLS_SERVER, startPiToolsServer } from "./src/mcp-server.js";
+import { detectCliModes, modeInstructions, parseModelMode, VARIANT_MODES, withMode } from "./src/modes.js";
+import {
+  allowsPiTools,
+  approvalRule,
+  approvedCallsPrompt,
+  getPermissionProfile,
+  isPermissionProfile,
+  needsApproval,
+  PERMISSION_PROFILES,
+  type PermissionProfile,
+  permissionProfileOverride,
+  profileRules,
+  setPermissionProfile,
+  trustsAgent,
+} from "./src/permissions.js";
+import { spawnAgentProcess, terminateProcessTree } from "./src/process-tree.js";
+import { DEFAULT_PROVIDER, type ResolvedProfile, resolveProfiles } from "./src/profiles.js";
+import { type PreparedPrompt, preparePrompt } from "./src/prompt-transport.js";
+import {
+  addDiagnostic,
+  type CursorResultEvent,
+  formatDiagnostics,
+  isErrorResult,
+  type ProtocolDiagnostics,
+  parseLine,
+  resultErrorMessage,
+  resultStopReason,
+} from "./src/protocol.js";
+import {
+  type RecordedRun,
+  type RunRecorder,
+  readRecording,
+  recordingFile,
+  recordingsDir,
+  redactArgs,
+  startRecording,
+} from "./src/recorder.js";
+import { classifyFailure, type FailureClass, fallbackChain, retryDelayMs, sleep } from "./src/retry.js";
+import { forgetSession, planResume, recordSession } from "./src/sessions.js";
+import { type CursorStatus, formatStatus, STATUS_KEY } from "./src/status.js";
+import { formatToolCompleted, formatToolStarted, pathOf, summarizeToolCall } from "./src/tool-format.js";
+import { renderMessage, renderSystemPrompt, type TranscriptFormat, transcriptFrame } from "./src/transcript.js";
 
 // ---------------------------------------------------------------------------
 // Model definitions
 // ---------------------------------------------------------------------------
 
-interface CursorModelDef {
-  id: string;
-  name: string;
-  reasoning: boolean;
-  contextWindow: number;
-  maxTokens: number;
-}
-
 /**
  * Static fallback list. Used when `agent models` fails or times out, and as
  * an attribute lookup table for models discovered dynamically.
@@ -105,17 +240,6 @@ const STATIC_MODELS_MAP = new Map<string, CursorModelDef>(
 // provides a reasoning/thinking level, the corresponding variant is used.
 // ---------------------------------------------------------------------------
 
-type ReasoningLevel = "minimal" | "low" | "medium" | "high" | "xhigh";
-
-interface ModelVariants {
-  default: string;
-  minimal?: string;
-  low?: string;
-  medium?: string;
-  high?: string;
-  xhigh?: string;
-}
-
 const MODEL_MAP: Record<string, ModelVariants> = {
   "claude-sonnet-4-5": {
     default: "sonnet-4.5",
@@ -195,13 +319,92 @@ const MODEL_MAP: Record<string, ModelVariants> = {
   "grok-code-fast-1": { default: "grok" },
 };
 
+/**
+ * Families derived from the discovered models (see src/model-variants.ts),
+ * MODEL_MAP and the user's aliases (see src/model-overrides.ts), later ones
+ * taking precedence.
+ */
+let modelMap: Record<string, ModelVariants> = MODEL_MAP;
+
+/** User aliases of canonical ids to CLI model ids. */
+let modelAliases: Record<string, ModelVariants> = {};
+
+/** Families derived from each provider's model list, keyed by provider. */
+const derivedFamilies = new Map<string, Record<string, ModelVariants>>();
+
+/** Canonical ids of the derived families currently in modelMap. */
+const derivedIds = new Set<string>();
+
+/** User overrides of model metadata, keyed by CLI model id. */
+let modelOverrides: Record<string, ModelOverride> = {};
+
 const cursorDefaultToCanonical = new Map<string, string>();
 const allMappedCursorIds = new Set<string>();
-for (const [canonicalId, variants] of Object.entries(MODEL_MAP)) {
-  if (variants.default) cursorDefaultToCanonical.set(variants.default, canonicalId);
-  for (const cursorId of Object.values(variants)) {
-    if (cursorId) allMappedCursorIds.add(cursorId);
+
+function indexModelMap(): void {
+  cursorDefaultToCanonical.clear();
+  allMappedCursorIds.clear();
+  for (const [canonicalId, variants] of Object.entries(modelMap)) {
+    if (variants.default) cursorDefaultToCanonical.set(variants.default, canonicalId);
+    for (const cursorId of Object.values(variants)) {
+      if (cursorId) allMappedCursorIds.add(cursorId);
+    }
+  }
+}
+indexModelMap();
+
+/**
+ * Rebuild modelMap. A derived family is dropped when an explicit entry has its
+ * canonical id or maps any of its CLI ids, so hand-written mappings always win.
+ */
+function buildModelMap(): void {
+  const explicit = { ...MODEL_MAP, ...modelAliases };
+  const explicitIds = new Set(Object.values(explicit).flatMap((variants) => Object.values(variants)));
+  const derived: Record<string, ModelVariants> = {};
+  derivedIds.clear();
+  for (const families of derivedFamilies.values()) {
+    for (const [id, variants] of Object.entries(families)) {
+      if (id in explicit || Object.values(variants).some((cursorId) => explicitIds.has(cursorId))) continue;
+      derived[id] = variants;
+      derivedIds.add(id);
+    }
+  }
+  modelMap = { ...derived, ...explicit };
+  indexModelMap();
+}
+
+/** Merge user overrides over the built-in tables. */
+function setModelOverrides(overrides: ModelOverrides): void {
+  modelAliases = overrides.aliases;
+  modelOverrides = overrides.models;
+  buildModelMap();
+}
+
+/** Derive reasoning families from a provider's model list (see src/model-variants.ts). */
+function setDiscoveredModels(provider: string, defs: CursorModelDef[]): void {
+  derivedFamilies.set(provider, deriveModelFamilies(withModelOverrides(defs).map((m) => m.id)));
+  buildModelMap();
+}
+
+/**
+ * Apply metadata overrides to a model list. Overridden ids that are not in the
+ * list are added, so new Cursor models can be used before discovery knows them.
+ */
+function withModelOverrides(defs: CursorModelDef[]): CursorModelDef[] {
+  const merged = defs.map((m) => ({ ...m, ...modelOverrides[m.id] }));
+  for (const [id, override] of Object.entries(modelOverrides)) {
+    if (merged.some((m) => m.id === id)) continue;
+    const known = STATIC_MODELS_MAP.get(id);
+    merged.push({
+      id,
+      name: known?.name ?? id,
+      reasoning: known?.reasoning ?? inferReasoning(id),
+      contextWindow: known?.contextWindow ?? 200000,
+      maxTokens: known?.maxTokens ?? 32768,
+      ...override,
+    });
   }
+  return merged;
 }
 
 /**
@@ -209,7 +412,7 @@ for (const [canonicalId, variants] of Object.entries(MODEL_MAP)) {
  * Returns null for variant-only IDs (e.g. thinking); they are not shown as separate models.
  * Returns the id as-is for unmapped models.
  */
-function toCanonicalId(cursorId: string): string | null {
+export function toCanonicalId(cursorId: string): string | null {
   const canonical = cursorDefaultToCanonical.get(cursorId);
   if (canonical) return canonical;
   if (allMappedCursorIds.has(cursorId)) return null;
@@ -220,8 +423,8 @@ function toCanonicalId(cursorId: string): string | null {
  * Resolve a canonical model ID (and optional reasoning level) to the Cursor CLI model ID.
  * Returns the id as-is for unmapped models.
  */
-function toCursorId(canonicalId: string, reasoning?: string): string {
-  const family = MODEL_MAP[canonicalId];
+export function toCursorId(canonicalId: string, reasoning?: string): string {
+  const family = modelMap[canonicalId];
   if (!family) return canonicalId;
   const level = reasoning as ReasoningLevel | undefined;
   const variant = level && family[level];
@@ -232,9 +435,6 @@ function toCursorId(canonicalId: string, reasoning?: string): string {
 // Dynamic model discovery via `agent models`
 // ---------------------------------------------------------------------------
 
-/** Timeout (ms) for `agent models` discovery call. */
-const DISCOVERY_TIMEOUT_MS = 15_000;
-
 /**
  * Infer the `reasoning` flag for a model that is not in the static list.
  * Models whose id ends with -thinking, -high, -xhigh, -max-high, or -max are
@@ -244,6 +444,15 @@ function inferReasoning(id: string): boolean {
   return /(-thinking|-high|-xhigh|-max-high)$/.test(id);
 }
 
+/**
+ * Whether a model accepts image input. Claude, GPT and Gemini models (and
+ * `auto`, which routes to them) do; Cursor's own and the remaining third-party
+ * models are treated as text-only. The `vision` override field wins.
+ */
+function supportsImages(model: CursorModelDef): boolean {
+  return model.vision ?? /^(auto|opus|sonnet|haiku|claude|gpt-|gemini)/.test(model.id);
+}
+
 /**
  * Parse the text output of `agent models` into a list of model definitions.
  *
@@ -255,7 +464,7 @@ function inferReasoning(id: string): boolean {
  *   "opus-4.6-thinking - Claude 4.6 Opus (Thinking)  (default)"
  *   "sonnet-4.6 - Claude 4.6 Sonnet  (current)"
  */
-function parseAgentModelsOutput(output: string): CursorModelDef[] {
+export function parseAgentModelsOutput(output: string): CursorModelDef[] {
   const results: CursorModelDef[] = [];
   // Match lines like: "model-id - Display Name  (optional flags)"
   const lineRe = /^([a-zA-Z0-9][a-zA-Z0-9._-]*)\s+-\s+(.+?)(?:\s+\((?:current|default|current,\s*default)\))?$/;
@@ -283,28 +492,28 @@ function parseAgentModelsOutput(output: string): CursorModelDef[] {
 }
 
 /**
- * Run `agent models` and return the parsed model list.
+ * Run `agent models` for a profile and return the parsed model list.
  * Rejects if the CLI exits with an error, produces no usable output, or
- * exceeds the discovery timeout.
+ * exceeds the discovery timeout (`discoveryTimeoutMs`).
  */
-function runAgentModels(agentPath: string): Promise<CursorModelDef[]> {
+function runAgentModels(profile: ResolvedProfile, timeoutMs: number): Promise<CursorModelDef[]> {
   return new Promise((resolve, reject) => {
     const args = ["models"];
-    if (process.env["CURSOR_API_KEY"]) {
-      args.unshift("--api-key", process.env["CURSOR_API_KEY"]);
+    if (profile.env["CURSOR_API_KEY"]) {
+      args.unshift("--api-key", profile.env["CURSOR_API_KEY"]);
     }
 
     let stdout = "";
     let stderr = "";
-    const child = spawn(agentPath, args, {
+    const child = spawnAgentProcess(profile.agentPath, args, {
       stdio: ["ignore", "pipe", "pipe"],
-      env: process.env,
+      env: profile.env,
     });
 
     const timeout = setTimeout(() => {
-      child.kill("SIGTERM");
-      reject(new Error(`agent models timed out after ${DISCOVERY_TIMEOUT_MS}ms`));
-    }, DISCOVERY_TIMEOUT_MS);
+      terminateProcessTree(child, providerConfig.killGraceMs);
+      reject(new Error(`agent models timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
 
     child.stdout?.on("data", (chunk: Buffer) => { stdout += chunk.toString(); });
     child.stderr?.on("data", (chunk: Buffer) => { stderr += chunk.toString(); });
@@ -333,108 +542,66 @@ function runAgentModels(agentPath: string): Promise<CursorModelDef[]> {
 // ---------------------------------------------------------------------------
 // Prompt serialisation
 // Serialises the Pi context into a single text prompt for the CLI.
-// Cursor CLI receives the conversation as one -p "..." argument; multi-turn
-// history is included as a prefixed transcript (best-effort).
+// The prompt is delivered over stdin or a private temp file (see
+// src/prompt-transport.ts); multi-turn history is included as a tagged
+// transcript (see src/transcript.ts).
 // ---------------------------------------------------------------------------
 
+export interface SerializeOptions {
+  /** Compact the transcript to fit the model's context window (see src/budget.ts). */
+  budget?: BudgetOptions;
+  /** Attach images as workspace files (see src/images.ts). */
+  images?: ImageAttachments;
+  /** Defaults to "xml". */
+  format?: TranscriptFormat;
+}
+
 /**
  * Convert a content block (text or image) to a plain string for the CLI prompt.
- * Images are serialised as a textual placeholder because the Cursor Agent CLI
- * (v2026.02.13) does not support image attachments in the `--print` prompt.
- * The placeholder preserves the image's MIME type and byte-size so the model
+ *
+ * The `--print` prompt cannot carry images, so with `images` given each image
+ * is registered as a workspace file (see src/images.ts) and referenced by
+ * path. Without it a placeholder keeps the MIME type and size, so the model
  * can at least acknowledge that an image was intended.
  */
-function contentBlockToText(block: TextContent | import("@mariozechner/pi-ai").ImageContent): string {
+function contentBlockToText(block: TextContent | ImageContent, images?: ImageAttachments): string {
   if (block.type === "text") return block.text;
-  // ImageContent: { type: "image", data: string (base64), mimeType: string }
+  if (images) return imageReference(attachImage(images, block), block.mimeType);
   const bytes = Math.round((block.data.length * 3) / 4);
   return `[Image: ${block.mimeType}, ~${bytes} bytes — note: image input is not supported by the Cursor Agent CLI; the visual content cannot be passed through]`;
 }
 
-function serializeContext(context: Context): string {
-  const lines: string[] = [];
-
-  if (context.systemPrompt) {
-    lines.push(`[System]\n${context.systemPrompt}\n`);
-  }
-
-  for (const msg of context.messages) {
-    if (msg.role === "user") {
-      const text =
-        typeof msg.content === "string"
-          ? msg.content
-          : msg.content.map(contentBlockToText).join("\n");
-      lines.push(`[User]\n${text}`);
-    } else if (msg.role === "assistant") {
-      const text = msg.content
-        .filter((c): c is TextContent => c.type === "text")
-        .map((c) => c.text)
-        .join("\n");
-      if (text.trim()) {
-        lines.push(`[Assistant]\n${text}`);
-      }
-    } else if (msg.role === "toolResult") {
-      const text = msg.content.map(contentBlockToText).join("\n");
-      if (text.trim()) {
-        lines.push(`[Tool result: ${msg.toolName}]\n${text}`);
-      }
-    }
-  }
-
-  return lines.join("\n\n");
-}
-
-// ---------------------------------------------------------------------------
-// NDJSON event types — Cursor CLI stream-json shape
-// ---------------------------------------------------------------------------
-
-interface CursorAssistantEvent {
-  type: "assistant";
-  message: { role: "assistant"; content: Array<{ type: "text"; text: string }> };
-  session_id: string;
-}
-
 /**
- * A single Cursor CLI tool call (the value keyed by tool name).
- * The key is the tool name in camelCase (e.g. "shellToolCall", "readToolCall").
- * args are present on both started and completed; result only on completed.
+ * Serialise the Pi context into a single prompt. With a `budget` the
+ * transcript is compacted to fit the model's context window; a
+ * ContextBudgetError is thrown if it cannot be made to fit.
  */
-interface CursorToolCallPayload {
-  args: Record<string, unknown>;
-  result?: {
-    success?: Record<string, unknown>;
-    rejected?: { reason?: string };
-    error?: { message?: string };
-  };
-}
-
-interface CursorToolCallEvent {
-  type: "tool_call";
-  subtype: "started" | "completed";
-  /** The outer object has exactly one key: the tool name (e.g. "shellToolCall"). */
-  tool_call: Record<string, CursorToolCallPayload>;
+export function serializeContext(context: Context, options: SerializeOptions = {}): string {
+  const format = options.format ?? "xml";
+  const systemBlock = context.systemPrompt ? renderSystemPrompt(format, context.systemPrompt) : undefined;
+  return serializeTranscript(systemBlock, context.messages, options);
 }
 
-interface CursorResultEvent {
-  type: "result";
-  subtype: string;
-  duration_ms: number;
+/**
+ * Serialise a list of messages as a transcript. Used on its own when
+ * resuming a Cursor chat, where only the messages added since the last turn
+ * are sent.
+ */
+function serializeMessages(messages: Message[], options: SerializeOptions): string {
+  return serializeTranscript(undefined, messages, options);
 }
 
-type CursorStreamEvent =
-  | CursorAssistantEvent
-  | CursorToolCallEvent
-  | CursorResultEvent
-  | { type: string };
-
-function parseLine(line: string): CursorStreamEvent | null {
-  const trimmed = line.trim();
-  if (!trimmed) return null;
-  try {
-    return JSON.parse(trimmed) as CursorStreamEvent;
-  } catch {
-    return null;
-  }
+function serializeTranscript(systemBlock: string | undefined, messages: Message[], options: SerializeOptions): string {
+  const format = options.format ?? "xml";
+  const { open, close } = transcriptFrame(format);
+  const head = [open, systemBlock].filter(Boolean).join("\n\n") || undefined;
+  const serialize = (msg: Message) => renderMessage(format, msg, (block) => contentBlockToText(block, options.images));
+  // The frame counts against the budget like the system prompt.
+  const fixed = [head, close].filter(Boolean).join("\n\n") || undefined;
+  const blocks = options.budget
+    ? fitToBudget(fixed, messages, serialize, options.budget)
+    : messages.map(serialize).filter(Boolean);
+  return [head, ...blocks, close].filter(Boolean).join("\n\n");
 }
 
 // ---------------------------------------------------------------------------
@@ -466,18 +633,255 @@ function toPiToolName(cliKey: string): string {
 // streamSimple — the custom backend for the cursor provider
 // ---------------------------------------------------------------------------
 
-function streamCursorCli(
-  model: Model<Api>,
-  context: Context,
-  options?: SimpleStreamOptions,
-): AssistantMessageEventStream {
-  const stream = createAssistantMessageEventStream();
+/** Outcome of a single `agent --print` run. */
+interface AgentRunResult {
+  code: number | null;
+  stderr: string;
+  /** Cursor chat id reported by the stream, if any event carried one. */
+  sessionId?: string;
+  /** True once any text or tool activity was forwarded to the Pi stream. */
+  streamed: boolean;
+  /** Set when the process could not be spawned at all. */
+  spawnError?: Error;
+  /** Set when the user denied a rejected tool call in `ask` mode; the turn was stopped. */
+  denied?: string;
+  /** Set when the watchdog stopped the agent: which limit was hit and its value (ms). */
+  timedOut?: { limit: "turnTimeoutMs" | "idleTimeoutMs"; ms: number };
+  /** The closing `result` event, if the CLI sent one. */
+  final?: CursorResultEvent;
+  /** Unparseable lines and unknown events (see src/protocol.ts). */
+  diagnostics: ProtocolDiagnostics;
+}
 
-  (async () => {
-    const startTime = Date.now();
-    let firstTokenTime: number | undefined;
+/** One Pi assistant message that agent events are streamed into. */
+interface Segment {
+  stream: AssistantMessageEventStream;
+  output: AssistantMessage & { duration?: number; ttft?: number };
+  signal?: AbortSignal;
+  startTime: number;
+  firstTokenTime?: number;
+  /** Kind of the last content block while it is still open. */
+  openBlock?: "text" | "thinking";
+  accumulatedText: string;
+}
+
+/** What a run re-issuing approved calls starts from (`ask` mode, see reissueApproved). */
+interface Reissue {
+  /** Approval rules allowed in the new run. */
+  allowed: string[];
+  /** The approved calls, for the prompt. */
+  calls: string[];
+  context: Context;
+  files?: TurnFiles;
+}
+
+/** A call from the Cursor agent to one of Pi's tools (via the pi-tools MCP server). */
+interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  resolve: (result: McpToolResult) => void;
+}
+
+/** Per-turn facts needed when an agent run finishes. */
+interface TurnInfo {
+  piSessionId?: string;
+  workspacePath: string;
+  /** Cursor chat being resumed, if any. */
+  resumedId?: string;
+  /** Latest Pi context; updated each time the run continues after a tool call. */
+  context: Context;
+}
+
+/**
+ * A running `agent` process. When the agent calls one of Pi's tools the
+ * current assistant message ends with a Pi tool call, the run is parked in
+ * `suspendedRuns`, and the next streamSimple call — carrying Pi's tool result —
+ * attaches a new segment and continues streaming from the same process.
+ */
+interface AgentRun {
+  /** Undefined when a recording is replayed (see /cursor-replay). */
+  child?: ChildProcess;
+  /** CLI arguments, kept for /cursor-debug. */
+  args: string[];
+  profile: PermissionProfile;
+  recorder?: RunRecorder;
+  /** Files snapshotted before Cursor changed them; undefined when replaying. */
+  files?: TurnFiles;
+  result: AgentRunResult;
+  turn: TurnInfo;
+  /** Segment receiving events; undefined while Pi executes a tool. */
+  segment?: Segment;
+  /** Events received while no segment was attached. */
+  backlog: Array<(segment: Segment) => void>;
+  /** Tool calls from the agent not yet handed to Pi. */
+  toolCalls: PendingToolCall[];
+  /** Tool calls handed to Pi, keyed by tool call id. */
+  awaiting: Map<string, PendingToolCall>;
+  exited: boolean;
+  /** Wakes nextRunEvent when the process exits or a tool call arrives. */
+  wake?: () => void;
+  detachAbort?: () => void;
+  /** Restarts the idle timer; set while a segment is attached and `idleTimeoutMs` is on. */
+  touch?: () => void;
+  /** Approval dialogs open for this run (`ask` mode). */
+  approvalsPending: number;
+  /** Settles once every approval dialog of the run was answered. */
+  approvals: Promise<void>;
+  /** Rules for calls approved in earlier runs of the turn, allowed in this one. */
+  allowed: string[];
+  /** Calls the CLI rejected and the user approved during this run. */
+  approved: Array<{ rule: string; call: string }>;
+  /** Start the follow-up run that re-issues `approved` calls in the resumed chat. */
+  reissue?: (sessionId: string) => Promise<AgentRun>;
+  suspendTimer?: ReturnType<typeof setTimeout>;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * How long (ms) a run may wait for Pi to execute a tool before it is killed,
+ * e.g. because the user aborted while the tool was running.
+ */
+const SUSPEND_TIMEOUT_MS = 10 * 60_000;
+
+/** Pi's built-in coding tools; the Cursor agent has its own equivalents. */
+const PI_BUILTIN_TOOLS = new Set(["read", "bash", "edit", "write", "grep", "find", "ls"]);
+
+/** Suspended runs keyed by the id of the Pi tool call they wait on. */
+const suspendedRuns = new Map<string, AgentRun>();
+
+/**
+ * Latest extension context, captured on `session_start` and `turn_start`.
+ * streamSimple receives no UI handle of its own, so `ask` mode confirms tool
+ * calls and the status line is updated through this.
+ */
+let uiContext: ExtensionContext | undefined;
+
+/** Effective provider configuration; loaded when the extension starts (see src/config.ts). */
+let providerConfig: ProviderConfig = DEFAULT_CONFIG;
+
+/** Outcome of the most recent agent run, shown by /cursor-debug. */
+interface RunReport {
+  args: string[];
+  finishedAt: number;
+  result: AgentRunResult;
+}
+
+let lastRunReport: RunReport | undefined;
+
+/** What the status line shows (see src/status.ts). */
+let cursorStatus: CursorStatus = { running: false };
+
+function updateStatus(patch: Partial<CursorStatus>): void {
+  cursorStatus = { ...cursorStatus, ...patch };
+  uiContext?.ui.setStatus(STATUS_KEY, providerConfig.statusLine ? formatStatus(cursorStatus) : undefined);
+}
+
+/** Last known auth state per profile name ("" for the environment's account). */
+const authByProfile = new Map<string, AuthState>();
+
+/** Profile whose account the status line shows. */
+let statusProfile = "";
+
+/** Remember a profile's auth state and show it if the status line is about that profile. */
+function noteAuth(profile: ResolvedProfile, auth: AuthState): void {
+  authByProfile.set(profile.name ?? "", auth);
+  if ((profile.name ?? "") === statusProfile) updateStatus({ auth });
+}
+
+function showRunStarted(profile: ResolvedProfile, model: string): void {
+  statusProfile = profile.name ?? "";
+  updateStatus({ profile: profile.name, auth: authByProfile.get(statusProfile), model, running: true, tool: undefined });
+}
+
+/** The turn is over; show how long its last message took. */
+function showTurnEnded(segment: Segment): void {
+  const { ttft, duration = Date.now() - segment.startTime } = segment.output;
+  updateStatus({ running: false, tool: undefined, last: { ttft, duration } });
+}
+
+/** Last lines of stderr kept in the /cursor-debug report. */
+const DEBUG_STDERR_LINES = 20;
+
+/** Text shown by /cursor-debug. The API key is never included. */
+function formatRunReport(report: RunReport): string {
+  const args = redactArgs(report.args);
+  const { result } = report;
+  const lines = [
+    `Last Cursor run (${new Date(report.finishedAt).toLocaleString()}):`,
+    `  Command: agent ${args.join(" ")}`,
+    `  Exit code: ${result.code ?? "none (killed)"}`,
+  ];
+  if (result.sessionId) lines.push(`  Cursor chat: ${result.sessionId}`);
+  lines.push(
+    result.final
+      ? `  Result: ${result.final.subtype}${result.final.is_error ? " (is_error)" : ""}${
+          result.final.duration_ms !== undefined ? `, ${result.final.duration_ms}ms` : ""
+        }`
+      : "  Result: no result event",
+  );
+  if (result.final && isErrorResult(result.final) && result.final.result) {
+    lines.push(`  Result text: ${result.final.result.trim()}`);
+  }
+  const diagnostics = formatDiagnostics(result.diagnostics);
+  lines.push(diagnostics ? diagnostics.replace(/^/gm, "  ") : "  Unexpected CLI output: none");
+  const stderr = result.stderr.trim().split("\n").slice(-DEBUG_STDERR_LINES);
+  if (stderr[0]) lines.push("  Stderr (tail):", ...stderr.map((l) => `    ${l}`));
+  return lines.join("\n");
+}
+
+/** Text shown by /cursor-replay for one replayed run. */
+function formatReplay(file: string, index: number, runs: RecordedRun[], events: AssistantMessageEvent[]): string {
+  const { info, exit } = runs[index] as RecordedRun;
+  const lines = [
+    `Replayed run ${index + 1} of ${runs.length} from ${file}`,
+    `  Recorded: ${info.time}, model ${info.model}, ${info.transport} prompt (${info.prompt.length} chars)`,
+    `  Exit: ${exit ? `code ${exit.code ?? "none"}${exit.signal ? ` (${exit.signal})` : ""} after ${exit.t}ms` : "not recorded"}`,
+  ];
+  // Consecutive deltas are collapsed: "text_delta ×12".
+  const types: string[] = [];
+  let repeats = 1;
+  for (const [i, event] of events.entries()) {
+    if (events[i + 1]?.type === event.type) {
+      repeats++;
+      continue;
+    }
+    types.push(repeats > 1 ? `${event.type} ×${repeats}` : event.type);
+    repeats = 1;
+  }
+  lines.push(`  Pi events: ${types.join(", ")}`);
+  const last = events.at(-1);
+  const message = last?.type === "done" ? last.message : last?.type === "error" ? last.error : undefined;
+  if (message) {
+    lines.push(`  Stop reason: ${message.stopReason}`);
+    if (message.errorMessage) lines.push(`  Error: ${message.errorMessage}`);
+    for (const block of message.content) {
+      if (block.type === "text") lines.push("--- text ---", block.text);
+      else if (block.type === "thinking") lines.push("--- thinking ---", block.thinking);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Approval dialogs are shown one at a time. */
+let approvalQueue: Promise<unknown> = Promise.resolve();
 
-    const output: AssistantMessage & { duration?: number; ttft?: number } = {
+/** Ask the user whether the Cursor agent may go ahead with a tool call. */
+function approveToolCall(toolName: string, summary: string): Promise<boolean> {
+  const next = approvalQueue.then(async () => {
+    const ctx = uiContext;
+    // Without a UI nobody can approve; fail safe.
+    if (!ctx?.hasUI) return false;
+    return ctx.ui.confirm(`Allow Cursor to use ${toolName}?`, summary);
+  });
+  approvalQueue = next.catch(() => {});
+  return next;
+}
+
+function createSegment(model: Model<Api>, options?: SimpleStreamOptions): Segment {
+  const segment: Segment = {
+    stream: createAssistantMessageEventStream(),
+    output: {
       role: "assistant",
       content: [],
       api: model.api,
@@ -493,282 +897,1197 @@ function streamCursorCli(
       },
       stopReason: "stop",
       timestamp: Date.now(),
-    };
+    },
+    signal: options?.signal,
+    startTime: Date.now(),
+    accumulatedText: "",
+  };
+  segment.stream.push({ type: "start", partial: segment.output });
+  return segment;
+}
+
+function appendText(segment: Segment, text: string): void {
+  const { output, stream } = segment;
+  if (segment.openBlock !== "text") {
+    closeBlock(segment);
+    output.content.push({ type: "text", text: "" });
+    const idx = output.content.length - 1;
+    stream.push({ type: "text_start", contentIndex: idx, partial: output });
+    segment.openBlock = "text";
+  }
+  const idx = output.content.length - 1;
+  const textBlock = output.content[idx] as TextContent;
+  textBlock.text += text;
+  segment.accumulatedText += text;
+  stream.push({ type: "text_delta", contentIndex: idx, delta: text, partial: output });
+}
+
+function appendThinking(segment: Segment, thinking: string): void {
+  const { output, stream } = segment;
+  if (segment.openBlock !== "thinking") {
+    closeBlock(segment);
+    output.content.push({ type: "thinking", thinking: "" });
+    const idx = output.content.length - 1;
+    stream.push({ type: "thinking_start", contentIndex: idx, partial: output });
+    segment.openBlock = "thinking";
+  }
+  const idx = output.content.length - 1;
+  const thinkingBlock = output.content[idx] as ThinkingContent;
+  thinkingBlock.thinking += thinking;
+  stream.push({ type: "thinking_delta", contentIndex: idx, delta: thinking, partial: output });
+}
+
+/** Close the open text or thinking block, if any. */
+function closeBlock(segment: Segment): void {
+  const { output, stream } = segment;
+  const idx = output.content.length - 1;
+  const block = output.content[idx];
+  if (segment.openBlock === "text" && block?.type === "text") {
+    stream.push({ type: "text_end", contentIndex: idx, content: block.text, partial: output });
+  } else if (segment.openBlock === "thinking" && block?.type === "thinking") {
+    stream.push({ type: "thinking_end", contentIndex: idx, content: block.thinking, partial: output });
+  }
+  segment.openBlock = undefined;
+}
 
-    const setTiming = () => {
-      output.duration = Date.now() - startTime;
-      output.ttft = firstTokenTime != null ? firstTokenTime - startTime : undefined;
+function setTiming(segment: Segment): void {
+  segment.output.duration = Date.now() - segment.startTime;
+  segment.output.ttft = segment.firstTokenTime != null ? segment.firstTokenTime - segment.startTime : undefined;
+}
+
+function endSegment(
+  segment: Segment,
+  reason: "stop" | "length" | "toolUse" | "aborted" | "error",
+  errorMessage?: string,
+): void {
+  closeBlock(segment);
+  const { output, stream } = segment;
+  output.stopReason = reason;
+  if (errorMessage !== undefined) output.errorMessage = errorMessage;
+  setTiming(segment);
+  if (reason === "aborted" || reason === "error") {
+    stream.push({ type: "error", reason, error: output });
+  } else {
+    stream.push({ type: "done", reason, message: output });
+  }
+  stream.end();
+}
+
+/** Run `fn` against the attached segment, or queue it until one is attached. */
+function deliver(run: AgentRun, fn: (segment: Segment) => void): void {
+  if (run.segment) fn(run.segment);
+  else run.backlog.push(fn);
+}
+
+function attachSegment(run: AgentRun, segment: Segment): void {
+  if (run.suspendTimer) clearTimeout(run.suspendTimer);
+  run.suspendTimer = undefined;
+  run.segment = segment;
+  for (const fn of run.backlog.splice(0)) fn(segment);
+
+  const onAbort = () => {
+    stopRun(run);
+  };
+  segment.signal?.addEventListener("abort", onAbort, { once: true });
+
+  // Time spent in Pi's tools (while no segment is attached) counts towards neither limit.
+  // The turn limit runs from the segment's start, so retries and fallbacks share it.
+  const { turnTimeoutMs, idleTimeoutMs } = providerConfig;
+  const timeOut = (limit: "turnTimeoutMs" | "idleTimeoutMs", ms: number) => {
+    if (run.exited || run.result.timedOut) return;
+    run.result.timedOut = { limit, ms };
+    stopRun(run);
+  };
+  const turnLeft = Math.max(0, segment.startTime + turnTimeoutMs - Date.now());
+  const turnTimer =
+    turnTimeoutMs > 0 ? setTimeout(() => timeOut("turnTimeoutMs", turnTimeoutMs), turnLeft) : undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const onIdle = () => {
+    // A pending approval dialog is the user's time, not the agent's.
+    if (run.approvalsPending > 0) run.touch?.();
+    else timeOut("idleTimeoutMs", idleTimeoutMs);
+  };
+  if (idleTimeoutMs > 0) {
+    run.touch = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(onIdle, idleTimeoutMs);
     };
+    run.touch();
+  }
 
-    try {
-      const agentPath =
-        process.env["CURSOR_AGENT_PATH"] ??
-        process.env["AGENT_PATH"] ??
-        "agent";
+  run.detachAbort = () => {
+    segment.signal?.removeEventListener("abort", onAbort);
+    if (turnTimer) clearTimeout(turnTimer);
+    if (idleTimer) clearTimeout(idleTimer);
+    run.touch = undefined;
+  };
+}
 
-      const workspacePath = process.cwd();
-      const prompt = serializeContext(context);
-      const reasoningLevel = (options as { reasoning?: string })?.reasoning;
-      const cliModelId = toCursorId(model.id, reasoningLevel);
+/** Stop the agent and everything it started (see src/process-tree.ts). */
+function stopRun(run: AgentRun): void {
+  if (run.child && !run.exited) terminateProcessTree(run.child, providerConfig.killGraceMs);
+}
 
-      const args = [
-        "--print",
-        "--output-format", "stream-json",
-        "--model", cliModelId,
-        "--trust",
-        "--workspace", workspacePath,
-        prompt,
-      ];
+function detachSegment(run: AgentRun): void {
+  run.detachAbort?.();
+  run.detachAbort = undefined;
+  run.segment = undefined;
+}
 
-      if (process.env["CURSOR_API_KEY"]) {
-        args.unshift("--api-key", process.env["CURSOR_API_KEY"]);
+/** Wait until the agent exits or asks Pi to run a tool. */
+function nextRunEvent(run: AgentRun): Promise<"exit" | "toolCall"> {
+  return new Promise((resolve) => {
+    const check = () => {
+      if (run.toolCalls.length > 0) resolve("toolCall");
+      else if (run.exited) resolve("exit");
+      else {
+        run.wake = check;
+        return;
       }
+      run.wake = undefined;
+    };
+    check();
+  });
+}
+
+/** Spawn the agent and wire its NDJSON output to the run's segments. */
+function startAgentRun(
+  agentPath: string,
+  args: string[],
+  prompt: PreparedPrompt,
+  env: NodeJS.ProcessEnv,
+  turn: TurnInfo,
+  files: TurnFiles,
+  profile: PermissionProfile,
+  cleanup: () => Promise<void>,
+  recorder?: RunRecorder,
+): AgentRun {
+  const child = spawnAgentProcess(agentPath, args, {
+    stdio: [prompt.stdin !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+    env,
+  });
 
-      stream.push({ type: "start", partial: output });
+  const run = createRun(child, args, turn, profile, cleanup);
+  run.recorder = recorder;
+  run.files = files;
 
-      const child = spawn(agentPath, args, {
-        stdio: ["ignore", "pipe", "pipe"],
-        env: process.env,
-      });
+  if (prompt.stdin !== undefined) {
+    // The CLI may exit before reading everything (e.g. bad arguments);
+    // its exit code is reported instead of the resulting EPIPE.
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(prompt.stdin);
+  }
 
-      const onAbort = () => {
-        child.kill("SIGTERM");
-      };
-      options?.signal?.addEventListener("abort", onAbort, { once: true });
+  const stderrChunks: string[] = [];
+  child.stderr?.on("data", (chunk: Buffer) => {
+    stderrChunks.push(chunk.toString());
+    run.recorder?.stderr(chunk.toString());
+    run.touch?.();
+  });
+
+  const rl = createInterface({ input: child.stdout!, crlfDelay: Infinity });
+
+  let lineNo = 0;
+  rl.on("line", (line: string) => {
+    run.recorder?.stdout(line);
+    run.touch?.();
+    handleAgentLine(run, line, ++lineNo);
+  });
+
+  const onExit = () => {
+    run.exited = true;
+    run.wake?.();
+  };
+
+  child.on("close", (code, signal) => {
+    run.result.code = code;
+    run.result.stderr = stderrChunks.join("").trim();
+    run.recorder?.exit(code, signal);
+    onExit();
+  });
+
+  child.on("error", (err) => {
+    run.result.spawnError = err;
+    onExit();
+  });
+
+  return run;
+}
+
+function createRun(
+  child: ChildProcess | undefined,
+  args: string[],
+  turn: TurnInfo,
+  profile: PermissionProfile,
+  cleanup: () => Promise<void>,
+): AgentRun {
+  return {
+    child,
+    args,
+    profile,
+    result: { code: null, stderr: "", streamed: false, diagnostics: { entries: [], dropped: 0 } },
+    turn,
+    backlog: [],
+    toolCalls: [],
+    awaiting: new Map(),
+    exited: false,
+    approvalsPending: 0,
+    approvals: Promise.resolve(),
+    allowed: [],
+    approved: [],
+    cleanup,
+  };
+}
+
+/** Map one NDJSON line from the agent to the run's result and Pi stream events. */
+function handleAgentLine(run: AgentRun, line: string, lineNo: number): void {
+  const parsed = parseLine(line);
+  if (parsed.kind === "diagnostic") addDiagnostic(run.result.diagnostics, lineNo, parsed.reason);
+  if (parsed.kind !== "event") return;
+  const event = parsed.event;
+
+  if (event.session_id) run.result.sessionId = event.session_id;
+
+  if (event.type === "result") {
+    run.result.final = event;
+    return;
+  }
 
-      const stderrChunks: string[] = [];
-      child.stderr?.on("data", (chunk: Buffer) => {
-        stderrChunks.push(chunk.toString());
+  if (event.type === "assistant") {
+    for (const block of event.message.content) {
+      if (block.type === "thinking") {
+        if (!block.thinking) continue;
+        run.result.streamed = true;
+        const thinking = block.thinking;
+        deliver(run, (segment) => {
+          if (segment.firstTokenTime === undefined) segment.firstTokenTime = Date.now();
+          appendThinking(segment, thinking);
+        });
+        continue;
+      }
+      if (block.type !== "text") continue;
+      if (!block.text.trim()) continue;
+
+      run.result.streamed = true;
+      const text = block.text;
+      deliver(run, (segment) => {
+        if (segment.firstTokenTime === undefined) segment.firstTokenTime = Date.now();
+        appendText(segment, text);
       });
+    }
+    return;
+  }
 
-      let textBlockOpen = false;
-      let accumulatedText = "";
+  // Reasoning is streamed as Pi thinking blocks, so Pi's thinking display
+  // and hide-thinking toggle apply to Cursor models too.
+  if (event.type === "thinking") {
+    if (event.subtype === "delta" && event.text) {
+      run.result.streamed = true;
+      const thinking = event.text;
+      deliver(run, (segment) => {
+        if (segment.firstTokenTime === undefined) segment.firstTokenTime = Date.now();
+        appendThinking(segment, thinking);
+      });
+    } else if (event.subtype === "completed") {
+      deliver(run, (segment) => {
+        if (segment.openBlock === "thinking") closeBlock(segment);
+      });
+    }
+    return;
+  }
 
-      const rl = createInterface({ input: child.stdout!, crlfDelay: Infinity });
+  // Cursor's own tool calls are rendered as informational text, not as Pi
+  // toolcall_* events, so Pi's agentic loop does not try to execute them.
+  if (event.type === "tool_call") {
+    const toolName = toPiToolName(event.toolKey);
+    const { payload } = event;
+    run.result.streamed = true;
+    const text =
+      event.subtype === "started" ? formatToolStarted(toolName, payload) : formatToolCompleted(toolName, payload);
+    deliver(run, (segment) => appendText(segment, text));
+    if (run.child) {
+      updateStatus({ tool: event.subtype === "started" ? `${toolName} ${summarizeToolCall(toolName, payload.args ?? {})}` : undefined });
+    }
 
-      rl.on("line", (line: string) => {
-        const event = parseLine(line);
-        if (!event) return;
+    const path = pathOf(payload.args);
+    if (event.subtype === "started" && run.files && path && FILE_CHANGING_TOOLS.has(event.toolKey)) {
+      snapshotFile(run.files, path);
+    }
+    if (event.subtype === "completed" && payload.result?.rejected && run.child && needsApproval(run.profile, toolName)) {
+      requestApproval(run, toolName, payload.args ?? {});
+    }
+  }
+}
 
-        if (event.type === "assistant") {
-          const ae = event as CursorAssistantEvent;
-          for (const block of ae.message.content) {
-            if (block.type !== "text") continue;
-            if (!block.text.trim()) continue;
+/**
+ * Ask the user about a call the CLI rejected under the `ask` profile's deny
+ * rules, so it never ran. The agent goes on meanwhile: an approved call is
+ * re-issued once the run ends (see reissueApproved), a denial stops the turn
+ * with an error. Calls no single rule can allow (see approvalRule) stay
+ * rejected without a dialog.
+ */
+function requestApproval(run: AgentRun, toolName: string, args: Record<string, unknown>): void {
+  const rule = approvalRule(toolName, args);
+  if (!rule) return;
+  const summary = summarizeToolCall(toolName, args);
+  const call = `[${toolName}] ${summary}`;
+  run.approvalsPending++;
+  const decided = approveToolCall(toolName, `${summary}\n\nThis allows ${rule} for the rest of the turn.`)
+    .catch(() => false)
+    .then((approved) => {
+      run.approvalsPending--;
+      run.touch?.();
+      if (approved) {
+        run.approved.push({ rule, call });
+      } else if (!run.result.denied) {
+        run.result.denied = call;
+        stopRun(run);
+      }
+    });
+  run.approvals = run.approvals.then(() => decided);
+}
 
-            if (firstTokenTime === undefined) firstTokenTime = Date.now();
-            if (!textBlockOpen) {
-              output.content.push({ type: "text", text: "" });
-              const idx = output.content.length - 1;
-              stream.push({ type: "text_start", contentIndex: idx, partial: output });
-              textBlockOpen = true;
-            }
+/** End the current segment with the agent's next tool call and park the run. */
+function suspendForToolCall(run: AgentRun, segment: Segment): void {
+  const call = run.toolCalls.shift();
+  if (!call) return;
+  closeBlock(segment);
+  const toolCall: ToolCall = { type: "toolCall", id: call.id, name: call.name, arguments: call.args };
+  segment.output.content.push(toolCall);
+  const idx = segment.output.content.length - 1;
+  segment.stream.push({ type: "toolcall_start", contentIndex: idx, partial: segment.output });
+  segment.stream.push({ type: "toolcall_end", contentIndex: idx, toolCall, partial: segment.output });
+
+  detachSegment(run);
+  run.awaiting.set(call.id, call);
+  suspendedRuns.set(call.id, run);
+  run.suspendTimer = setTimeout(() => abandonRun(run), SUSPEND_TIMEOUT_MS);
+  endSegment(segment, "toolUse");
+}
 
-            const idx = output.content.length - 1;
-            const textBlock = output.content[idx] as TextContent;
-            textBlock.text += block.text;
-            accumulatedText += block.text;
-            stream.push({ type: "text_delta", contentIndex: idx, delta: block.text, partial: output });
-          }
-          return;
-        }
+/** Kill a run that will not be continued and release its resources. */
+function abandonRun(run: AgentRun): void {
+  if (run.suspendTimer) clearTimeout(run.suspendTimer);
+  for (const [id, r] of suspendedRuns) if (r === run) suspendedRuns.delete(id);
+  stopRun(run);
+  void run.cleanup().catch(() => {});
+}
 
-        // Tool calls are rendered as informational text, not as Pi toolcall_*
-        // events, to prevent Pi's agentic loop from re-invoking streamSimple.
-        if (event.type === "tool_call") {
-          const tce = event as CursorToolCallEvent;
-          const cliKey = Object.keys(tce.tool_call)[0];
-          if (!cliKey) return;
-          const toolName = toPiToolName(cliKey);
-
-          if (tce.subtype === "started") {
-            const payload = tce.tool_call[cliKey];
-            const argsSnippet = JSON.stringify(payload.args ?? {});
-            const brief = argsSnippet.length > 120 ? argsSnippet.slice(0, 120) + "…" : argsSnippet;
-            const marker = `\n⏳ [${toolName}] ${brief}\n`;
-
-            if (!textBlockOpen) {
-              output.content.push({ type: "text", text: "" });
-              const idx = output.content.length - 1;
-              stream.push({ type: "text_start", contentIndex: idx, partial: output });
-              textBlockOpen = true;
-            }
-            const idx = output.content.length - 1;
-            const textBlock = output.content[idx] as TextContent;
-            textBlock.text += marker;
-            accumulatedText += marker;
-            stream.push({ type: "text_delta", contentIndex: idx, delta: marker, partial: output });
-          }
+/** Kill runs of a Pi session that were waiting for tool results that never came. */
+function abandonSuspendedRuns(piSessionId: string | undefined): void {
+  for (const run of new Set(suspendedRuns.values())) {
+    if (run.turn.piSessionId === piSessionId) abandonRun(run);
+  }
+}
+
+/** Find the suspended run waiting for the tool result(s) at the end of `context`. */
+function takeSuspendedRun(context: Context): AgentRun | undefined {
+  const last = context.messages[context.messages.length - 1];
+  if (last?.role !== "toolResult") return undefined;
+  return suspendedRuns.get(last.toolCallId);
+}
+
+/** Convert Pi tool results back into MCP results for the waiting agent. */
+function deliverToolResults(run: AgentRun, context: Context): void {
+  for (const msg of context.messages) {
+    if (msg.role !== "toolResult") continue;
+    const call = run.awaiting.get(msg.toolCallId);
+    if (!call) continue;
+    run.awaiting.delete(msg.toolCallId);
+    suspendedRuns.delete(msg.toolCallId);
+    call.resolve({
+      content: msg.content.map((c) =>
+        c.type === "text" ? { type: "text", text: c.text } : { type: "image", data: c.data, mimeType: c.mimeType },
+      ),
+      isError: msg.isError,
+    });
+  }
+}
+
+/**
+ * Stream the run into `segment` until it exits or asks for another tool call,
+ * then finish the segment accordingly. Calls approved in `ask` mode are
+ * re-issued in a follow-up run first.
+ */
+async function driveRun(run: AgentRun, segment: Segment): Promise<void> {
+  for (;;) {
+    const event = await nextRunEvent(run);
+    if (event === "toolCall" && !segment.signal?.aborted) {
+      suspendForToolCall(run, segment);
+      return;
+    }
+    if (!segment.signal?.aborted) await run.approvals;
+    const next = await reissueApproved(run, segment);
+    if (!next) break;
+    run = next;
+  }
+  await finishRun(run, segment);
+  showTurnEnded(segment);
+}
+
+/**
+ * Once a run in `ask` mode has ended, resume its chat in a new run that may
+ * make the calls the user approved; the new run streams into the same
+ * segment and shares the turn's file history. Returns undefined when there
+ * is nothing to re-issue, or the run failed or was stopped.
+ */
+async function reissueApproved(run: AgentRun, segment: Segment): Promise<AgentRun | undefined> {
+  const { result } = run;
+  const sessionId = result.sessionId ?? run.turn.resumedId;
+  if (!run.reissue || run.approved.length === 0 || !sessionId) return undefined;
+  if (segment.signal?.aborted || result.spawnError || result.denied || result.timedOut || result.code !== 0) {
+    return undefined;
+  }
+  if (result.final && isErrorResult(result.final)) return undefined;
+
+  detachSegment(run);
+  closeBlock(segment);
+  lastRunReport = { args: run.args, finishedAt: Date.now(), result };
+  try {
+    return await run.reissue(sessionId);
+  } finally {
+    await run.cleanup();
+  }
+}
+
+async function finishRun(run: AgentRun, segment: Segment): Promise<void> {
+  const { result, turn } = run;
+  stopRun(run);
+  detachSegment(run);
+  await run.cleanup();
+  // A replayed recording (no process) leaves the report of the last real run.
+  if (run.child) lastRunReport = { args: run.args, finishedAt: Date.now(), result };
+  await reportChangedFiles(run);
+
+  // Protocol problems are appended to errors so format changes are visible.
+  const fail = (message: string) => {
+    const diagnostics = formatDiagnostics(result.diagnostics);
+    const authFailed = isAuthError(message, result.stderr);
+    const hint = authFailed ? `\n\n${AUTH_HINT}` : "";
+    if (authFailed && run.child) {
+      const auth = { loggedIn: false, raw: message };
+      authByProfile.set(statusProfile, auth);
+      updateStatus({ auth });
+    }
+    forgetSession(turn.piSessionId);
+    endSegment(segment, "error", `${message}${hint}${diagnostics ? `\n\n${diagnostics}` : ""}`);
+  };
+
+  if (segment.signal?.aborted) {
+    endSegment(segment, "aborted");
+    return;
+  }
+
+  if (result.spawnError) {
+    forgetSession(turn.piSessionId);
+    endSegment(segment, "error", result.spawnError.message);
+    return;
+  }
+
+  if (result.denied) {
+    forgetSession(turn.piSessionId);
+    endSegment(segment, "error", `Turn stopped: ${result.denied} was denied (permission profile "ask").`);
+    return;
+  }
+
+  if (result.timedOut) {
+    const { limit, ms } = result.timedOut;
+    forgetSession(turn.piSessionId);
+    endSegment(
+      segment,
+      "error",
+      limit === "idleTimeoutMs"
+        ? `Cursor agent stopped: no output for ${ms / 1000}s (idleTimeoutMs).`
+        : `Cursor turn timed out after ${ms / 1000}s (turnTimeoutMs).`,
+    );
+    return;
+  }
+
+  // The closing `result` event decides the outcome, even after partial text.
+  if (result.final && isErrorResult(result.final)) {
+    if (resultStopReason(result.final) === "length") {
+      forgetSession(turn.piSessionId);
+      endSegment(segment, "length", resultErrorMessage(result.final));
+    } else {
+      fail(resultErrorMessage(result.final));
+    }
+    return;
+  }
+
+  if (result.code !== 0 && (!segment.accumulatedText || !result.final)) {
+    fail(result.stderr || `Cursor CLI exited with code ${result.code}`);
+    return;
+  }
+
+  if (!result.final) {
+    addDiagnostic(result.diagnostics, 0, "stream ended without a result event");
+  }
+
+  closeBlock(segment);
+  const cursorSessionId = result.sessionId ?? turn.resumedId;
+  if (cursorSessionId) {
+    recordSession(turn.piSessionId, cursorSessionId, turn.context, segment.output, turn.workspacePath);
+  } else {
+    forgetSession(turn.piSessionId);
+  }
+
+  endSegment(segment, "stop");
+}
+
+/** Add the run's file changes to the undo history and list them. */
+async function reportChangedFiles(run: AgentRun): Promise<void> {
+  if (!run.files) return;
+  const changes = await recordTurnFiles(run.files);
+  if (changes.length === 0) return;
+  uiContext?.ui.notify(
+    `Cursor changed ${changes.length} file(s) — /cursor-undo restores them:\n${formatFileChanges(run.files.workspace, changes)}`,
+    "info",
+  );
+}
+
+/**
+ * Why a finished run may be tried again (see src/retry.ts), or undefined when
+ * it succeeded, was stopped on purpose, or already streamed output.
+ */
+function retryableFailure(run: AgentRun, segment: Segment): FailureClass | undefined {
+  const { result } = run;
+  if (segment.signal?.aborted || result.streamed || result.spawnError || result.denied || result.timedOut) {
+    return undefined;
+  }
+  const failedResult = result.final && isErrorResult(result.final) && resultStopReason(result.final) === "error";
+  if (!failedResult && result.code === 0) return undefined;
+  const failure = classifyFailure(result.stderr, result.final?.result, result.final?.subtype);
+  return failure.kind === "fatal" ? undefined : failure;
+}
+
+/**
+ * Feed a recorded run through the same event mapping as a live run and return
+ * the Pi stream events it produces. No agent process is started.
+ */
+export async function replayRecordedRun(recorded: RecordedRun): Promise<AssistantMessageEvent[]> {
+  const { info } = recorded;
+  const segment = createSegment({ id: info.model, api: "cursor-cli", provider: "cursor" } as Model<Api>);
+  const turn: TurnInfo = { workspacePath: info.workspace, context: { messages: [] } };
+  const run = createRun(undefined, info.args, turn, "full", async () => {});
+  run.segment = segment;
+  for (const [i, { line }] of recorded.stdout.entries()) handleAgentLine(run, line, i + 1);
+  run.result.code = recorded.exit?.code ?? null;
+  run.result.stderr = recorded.stderr.trim();
+  run.exited = true;
+  await finishRun(run, segment);
+
+  const events: AssistantMessageEvent[] = [];
+  for await (const event of segment.stream) events.push(event);
+  return events;
+}
+
+/** Tools from the Pi context to expose to the agent, per the `piTools` setting. */
+function toolsForCursor(context: Context): Tool[] {
+  const mode = providerConfig.piTools;
+  if (mode === "off") return [];
+  const tools = context.tools ?? [];
+  return mode === "all" ? tools : tools.filter((t) => !PI_BUILTIN_TOOLS.has(t.name));
+}
+
+export function streamCursorCli(
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+): AssistantMessageEventStream {
+  const segment = createSegment(model, options);
+
+  (async () => {
+    const cleanups: Array<() => Promise<void>> = [];
+    const cleanup = async () => {
+      for (const fn of cleanups.splice(0).reverse()) await fn().catch(() => {});
+    };
+
+    try {
+      // A tool result for a call made by a still-running agent: continue it.
+      const suspended = takeSuspendedRun(context);
+      if (suspended) {
+        suspended.turn.context = context;
+        deliverToolResults(suspended, context);
+        attachSegment(suspended, segment);
+        await driveRun(suspended, segment);
+        return;
+      }
+
+      const config = providerConfig;
+      const account = profileFor(model.provider);
+      const agentPath = account.agentPath;
+      const workspacePath = await agentWorkspace(config);
+      const reasoningLevel = (options as { reasoning?: string })?.reasoning;
+      // "<model>:ask" and "<model>:plan" are read-only variants (see src/modes.ts).
+      const { modelId, mode } = parseModelMode(model.id);
+      const cliModelId = toCursorId(modelId, reasoningLevel);
+      const piSessionId = options?.sessionId;
+      abandonSuspendedRuns(piSessionId);
+      const budget: BudgetOptions = {
+        contextWindow: model.contextWindow,
+        maxTokens: model.maxTokens,
+        strategy: config.contextStrategy,
+        keepTurns: config.contextKeepTurns,
+      };
+      const format = config.transcriptFormat;
+
+      // Images are handed over as files in the workspace for this turn.
+      const images = createImageAttachments(workspacePath);
+      cleanups.push(() => removeImageAttachments(images));
+
+      // Expose Pi's tools to the agent through the embedded MCP server, and
+      // apply the permission profile's rules, via a per-turn config overlay.
+      let currentRun: AgentRun | undefined;
+      let env: NodeJS.ProcessEnv = account.env;
+      const profile = mode === "agent" ? getPermissionProfile(config.permissionProfile) : "read-only";
+      let piToolsServer: McpServerConfig | undefined;
+      /** Overlay settings, with the rules of calls approved so far in `ask` mode. */
+      const overlayFor = (approved: string[] = []): ConfigOverlayOptions => {
+        const options: ConfigOverlayOptions = profileRules(profile, approved);
+        if (piToolsServer) {
+          // Approved through the overlay's allow rule only; no --approve-mcps,
+          // which would also approve every other server the agent can see.
+          options.mcpServers = { [PI_TOOLS_SERVER]: piToolsServer };
+          options.allow = [...(options.allow ?? []), `Mcp(${PI_TOOLS_SERVER}:*)`];
         }
-      });
+        return options;
+      };
+      const piTools = allowsPiTools(profile) ? toolsForCursor(context) : [];
+      if (piTools.length > 0) {
+        const server = await startPiToolsServer(piTools, (name, args) =>
+          new Promise<McpToolResult>((resolve, reject) => {
+            const run = currentRun;
+            if (!run || run.exited) {
+              reject(new Error("The Cursor turn has already finished."));
+              return;
+            }
+            run.result.streamed = true;
+            run.toolCalls.push({ id: `cursor_mcp_${randomUUID()}`, name, args, resolve });
+            run.wake?.();
+          }),
+        );
+        cleanups.push(() => server.close());
+        piToolsServer = server.config;
+      }
+      const overlayOptions = overlayFor();
+      if (overlayOptions.mcpServers || overlayOptions.allow?.length || overlayOptions.deny?.length) {
+        const overlay = await createConfigOverlay(overlayOptions, account.env);
+        cleanups.push(() => overlay.cleanup());
+        env = { ...account.env, ...overlay.env };
+      }
 
-      await new Promise<void>((resolve) => {
-        child.on("close", (code) => {
-          options?.signal?.removeEventListener("abort", onAbort);
+      // Ask and plan use the CLI's --mode where it has one, prompt instructions otherwise.
+      const nativeMode = mode !== "agent" && (await detectCliModes(agentPath, account.env)).has(mode);
+      const instructions = nativeMode ? undefined : modeInstructions(mode);
+
+      const buildArgs = (cliModel: string, resumeId?: string) => {
+        const args = [
+          "--print",
+          "--output-format", "stream-json",
+          "--model", cliModel,
+          // Without --trust, `ask` mode's rules decide which calls the CLI runs.
+          ...(trustsAgent(profile) ? ["--trust"] : []),
+          "--workspace", workspacePath,
+        ];
+        if (nativeMode) args.push("--mode", mode);
+        if (resumeId) args.push("--resume", resumeId);
+        args.push(...config.extraArgs);
+
+        if (account.env["CURSOR_API_KEY"]) {
+          args.unshift("--api-key", account.env["CURSOR_API_KEY"]);
+        }
+        return args;
+      };
 
-          if (textBlockOpen) {
-            const idx = output.content.length - 1;
-            stream.push({ type: "text_end", contentIndex: idx, content: accumulatedText, partial: output });
-            textBlockOpen = false;
-          }
+      const transport = config.promptTransport;
+
+      // What the current run was started with, for retries and fallbacks.
+      let cliModel = cliModelId;
+      let promptText = "";
+      let resumedFrom: string | undefined;
+      // Shared by retries and fallbacks: a run that streamed nothing changed no files.
+      let baseline: Promise<GitBaseline | undefined> | undefined;
+
+      /**
+       * Start a run. With `reissue`, the run resumes the chat of an `ask` run
+       * whose rejected calls the user approved, in an overlay that allows them.
+       */
+      const launch = async (resumedId?: string, reissue?: Reissue) => {
+        const args = buildArgs(cliModel, resumedId);
+        resumedFrom = resumedId;
+        if (reissue) promptText = approvedCallsPrompt(reissue.calls);
+        const fullPrompt = instructions ? `${instructions}\n\n${promptText}` : promptText;
+        await writeImageAttachments(images, fullPrompt);
+        const prompt = await preparePrompt({ agentPath, env: account.env, workspace: workspacePath }, fullPrompt, transport);
+        if (prompt.arg !== undefined) args.push(prompt.arg);
+        const turn: TurnInfo = { piSessionId, workspacePath, resumedId, context: reissue?.context ?? context };
+        const overlay = reissue ? await createConfigOverlay(overlayFor(reissue.allowed), account.env) : undefined;
+        const runCleanup = async () => {
+          await prompt.cleanup();
+          await overlay?.cleanup();
+          // The turn-level resources belong to whichever run is current.
+          if (run === currentRun) await cleanup();
+        };
+        const recorder = config.record
+          ? startRecording(recordingFile(piSessionId), {
+              piSessionId,
+              model: cliModel,
+              workspace: workspacePath,
+              args,
+              transport: prompt.kind,
+              prompt: fullPrompt,
+            })
+          : undefined;
+        // Taken before the agent starts: it may write a file before Pi reads the tool call.
+        baseline ??= captureBaseline(workspacePath);
+        const files = reissue?.files ?? createTurnFiles(workspacePath, await baseline);
+        const runEnv = overlay ? { ...account.env, ...overlay.env } : env;
+        const run = startAgentRun(agentPath, args, prompt, runEnv, turn, files, profile, runCleanup, recorder);
+        run.allowed = reissue?.allowed ?? [];
+        run.reissue = (sessionId) =>
+          launch(sessionId, {
+            allowed: [...new Set([...run.allowed, ...run.approved.map((a) => a.rule)])],
+            calls: run.approved.map((a) => a.call),
+            context: run.turn.context,
+            files: run.files,
+          });
+        currentRun = run;
+        showRunStarted(account, withMode(cliModel, mode));
+        attachSegment(run, segment);
+        return run;
+      };
 
-          if (options?.signal?.aborted) {
-            output.stopReason = "aborted";
-            setTiming();
-            stream.push({ type: "error", reason: "aborted", error: output });
-            stream.end();
-            resolve();
-            return;
-          }
+      /** Drop a run that failed before streaming anything; the turn goes on. */
+      const discard = async (failed: AgentRun) => {
+        detachSegment(failed);
+        currentRun = undefined;
+        await failed.cleanup();
+        lastRunReport = { args: failed.args, finishedAt: Date.now(), result: failed.result };
+      };
 
-          if (code !== 0 && !accumulatedText) {
-            const stderr = stderrChunks.join("").trim();
-            output.stopReason = "error";
-            output.errorMessage = stderr || `Cursor CLI exited with code ${code}`;
-            setTiming();
-            stream.push({ type: "error", reason: "error", error: output });
-            stream.end();
-            resolve();
-            return;
+      // Resume the Cursor chat from the previous turn when Pi's history still
+      // extends what Cursor has seen; otherwise replay the whole transcript.
+      const resume = planResume(piSessionId, context, workspacePath);
+      let run: AgentRun;
+      if (resume) {
+        promptText = serializeMessages(resume.newMessages, { budget, images, format });
+        run = await launch(resume.cursorSessionId);
+        // A chat that can no longer be resumed fails before producing any
+        // output — with an exit code, an error result, or no result at all;
+        // drop it and fall back to a full replay.
+        if ((await nextRunEvent(run)) === "exit") {
+          const { result } = run;
+          const failed = result.code !== 0 || !result.final || isErrorResult(result.final);
+          const stopped = segment.signal?.aborted || result.spawnError || result.denied || result.timedOut;
+          if (!stopped && !result.streamed && failed) {
+            forgetSession(piSessionId);
+            await discard(run);
+            promptText = serializeContext(context, { budget, images, format });
+            run = await launch();
           }
+        }
+      } else {
+        promptText = serializeContext(context, { budget, images, format });
+        run = await launch();
+      }
 
-          setTiming();
-          stream.push({ type: "done", reason: "stop", message: output });
-          stream.end();
-          resolve();
-        });
+      // Retry transient failures with backoff and move down the fallback
+      // chain when a model is unavailable — only while nothing was streamed.
+      // The chain may be keyed by the Pi id or by a CLI id of the model.
+      const aliases = [modelId, toCursorId(modelId), cliModelId, toCanonicalId(modelId) ?? modelId];
+      const fallbacks = fallbackChain([...new Set(aliases)], config.fallbackModels);
+      let currentModelId = modelId;
+      let retry = 0;
+      while ((await nextRunEvent(run)) === "exit") {
+        const failure = retryableFailure(run, segment);
+        if (!failure) break;
+        if (failure.kind === "transient" && retry < config.retries) {
+          await discard(run);
+          await sleep(retryDelayMs(retry++, config.retryBaseDelayMs), segment.signal);
+        } else {
+          const next = fallbacks.shift();
+          if (!next) break;
+          await discard(run);
+          appendText(segment, `↪ [Fallback] ${currentModelId}: ${failure.reason} — using ${next}\n\n`);
+          currentModelId = next;
+          segment.output.model = withMode(next, mode);
+          cliModel = toCursorId(next, reasoningLevel);
+          retry = 0;
+        }
+        if (segment.signal?.aborted) {
+          await cleanup();
+          endSegment(segment, "aborted");
+          showTurnEnded(segment);
+          return;
+        }
+        run = await launch(resumedFrom);
+      }
 
-        child.on("error", (err) => {
-          options?.signal?.removeEventListener("abort", onAbort);
-          output.stopReason = "error";
-          output.errorMessage = err.message;
-          setTiming();
-          stream.push({ type: "error", reason: "error", error: output });
-          stream.end();
-          resolve();
-        });
-      });
+      await driveRun(run, segment);
     } catch (error) {
-      output.stopReason = options?.signal?.aborted ? "aborted" : "error";
-      output.errorMessage = error instanceof Error ? error.message : String(error);
-      setTiming();
-      stream.push({ type: "error", reason: output.stopReason, error: output });
-      stream.end();
+      await cleanup();
+      endSegment(segment, segment.signal?.aborted ? "aborted" : "error", error instanceof Error ? error.message : String(error));
+      showTurnEnded(segment);
     }
   })();
 
-  return stream;
+  return segment.stream;
 }
 
 // ---------------------------------------------------------------------------
-// Auth helpers
+// Isolated workspaces
 // ---------------------------------------------------------------------------
 
-/**
- * Spawn `agent login` in an interactive child process so the user can
- * authenticate with Cursor from within a Pi session.
- * Returns a promise that resolves when login completes (exit 0) and rejects
- * on non-zero exit or spawn error.
- */
-function runAgentLogin(agentPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const args: string[] = ["login"];
-    // Suppress browser-open so login is purely CLI-driven (prints URL/code)
-    const env = { ...process.env, NO_OPEN_BROWSER: "1" };
+/** The isolated workspace of the current agent loop or session, while there is one. */
+let isolated: Promise<IsolatedWorkspace> | undefined;
 
-    const child = spawn(agentPath, args, {
-      stdio: "inherit",
-      env,
-    });
+/** Directory the agent runs in: the project, or its isolated copy. */
+async function agentWorkspace(config: ProviderConfig): Promise<string> {
+  const source = config.workspace ?? process.cwd();
+  if (config.isolation === "off") return source;
+  isolated ??= createIsolatedWorkspace(source);
+  try {
+    return (await isolated).path;
+  } catch (error) {
+    isolated = undefined;
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not create an isolated workspace for ${source}: ${msg}`);
+  }
+}
 
-    child.on("error", (err) => reject(err));
-    child.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`agent login exited with code ${code}`));
-    });
-  });
+async function dropIsolatedWorkspace(ws: IsolatedWorkspace): Promise<void> {
+  isolated = undefined;
+  await removeIsolatedWorkspace(ws);
+}
+
+async function chooseChanges(ctx: ExtensionContext, ws: IsolatedWorkspace, changes: WorkspaceChange[]) {
+  const chosen: WorkspaceChange[] = [];
+  for (const change of changes) {
+    if (await ctx.ui.confirm(`Apply ${change.status} ${change.path}?`, await diffChange(ws, change))) chosen.push(change);
+  }
+  return chosen;
 }
 
 /**
- * Run `agent status` and return the trimmed output (e.g. "✓ Logged in as …").
+ * Show the isolated workspace's changes and let the user apply all, some or
+ * none of them. "turn" workspaces are removed afterwards unless the dialog was
+ * dismissed or files conflicted; "session" workspaces stay until discarded.
  */
-function runAgentStatus(agentPath: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let out = "";
-    const child = spawn(agentPath, ["status"], {
-      stdio: ["ignore", "pipe", "pipe"],
-      env: process.env,
-    });
-    child.stdout?.on("data", (c: Buffer) => { out += c.toString(); });
-    child.stderr?.on("data", (c: Buffer) => { out += c.toString(); });
-    child.on("error", (err) => reject(err));
-    child.on("close", () => resolve(out.trim()));
-  });
+async function reviewIsolatedChanges(ctx: ExtensionContext, ws: IsolatedWorkspace, keep: boolean): Promise<void> {
+  const changes = await listChanges(ws);
+  if (changes.length === 0) {
+    if (!keep) await dropIsolatedWorkspace(ws);
+    return;
+  }
+  const later = `Cursor's changes are kept in ${ws.path} — /cursor-review to apply them.`;
+  if (!ctx.hasUI) {
+    ctx.ui.notify(later, "warning");
+    return;
+  }
+  ctx.ui.notify(await describeChanges(ws, changes), "info");
+  const options = ["Apply all", "Choose files…", "Discard", ...(keep ? ["Keep for later"] : [])];
+  const choice = await ctx.ui.select(`Cursor changed ${changes.length} file(s) in an isolated workspace`, options);
+  if (!choice || choice === "Keep for later") {
+    ctx.ui.notify(later, "info");
+    return;
+  }
+  if (choice === "Discard") {
+    await dropIsolatedWorkspace(ws);
+    ctx.ui.notify(`Discarded Cursor's changes to ${changes.length} file(s).`, "info");
+    return;
+  }
+  const selected = choice === "Apply all" ? changes : await chooseChanges(ctx, ws, changes);
+  const { applied, conflicts } = await applyChanges(ws, selected);
+  const lines = [`Applied Cursor's changes to ${applied.length} of ${changes.length} file(s).`];
+  if (conflicts.length > 0) {
+    lines.push(`Not applied — changed in ${ws.source} in the meantime:`, ...conflicts.map((p) => `  ${p}`), later);
+  } else if (!keep) {
+    await dropIsolatedWorkspace(ws);
+  }
+  ctx.ui.notify(lines.join("\n"), conflicts.length > 0 ? "warning" : "info");
+}
+
+// ---------------------------------------------------------------------------
+// Auth helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * `agent login` inside Pi: the sign-in URL and code are shown in a dialog
+ * while `agent status` is polled. Ends when the login succeeds or fails, or
+ * when the user cancels the dialog, which stops `agent login`.
+ */
+async function loginWithDialog(ctx: ExtensionContext, profile: ResolvedProfile): Promise<void> {
+  const { agentPath, env } = profile;
+  const current = await runAgentStatus(agentPath, env).catch(() => undefined);
+  if (current?.loggedIn) {
+    ctx.ui.notify(`${formatAuthState(current)} Run /cursor-logout first to switch accounts.`, "info");
+    return;
+  }
+
+  const login = startAgentLogin(agentPath, env);
+  const polling = new AbortController();
+  const dialog = new AbortController();
+  const { url, code } = await login.prompt;
+  const instructions = url
+    ? [`Open this URL to sign in to Cursor:\n\n  ${url}`, code && `\nCode: ${code}`, "\nWaiting for the login to complete…"]
+    : ["Waiting for `agent login` to complete…"];
+
+  let cancelled = false;
+  if (ctx.hasUI) {
+    ctx.ui
+      .select(instructions.filter(Boolean).join("\n"), ["Cancel login"], { signal: dialog.signal })
+      .then(() => {
+        // A dismissed dialog resolves too; only the user cancels before the abort.
+        if (dialog.signal.aborted) return;
+        cancelled = true;
+        polling.abort();
+        login.cancel();
+      });
+  } else {
+    ctx.ui.notify(instructions.filter(Boolean).join("\n"), "info");
+  }
+
+  const failed = login.done.then(
+    () => undefined,
+    (err: unknown) => (err instanceof Error ? err : new Error(String(err))),
+  );
+  // `agent login` exiting and `agent status` reporting a login both count.
+  const outcome = await Promise.race([
+    waitForLogin(agentPath, polling.signal, env),
+    failed.then((err) => err ?? runAgentStatus(agentPath, env).catch((e: Error) => e)),
+  ]);
+  polling.abort();
+  dialog.abort();
+  login.cancel();
+
+  if (cancelled) ctx.ui.notify("Cursor login cancelled.", "info");
+  else if (outcome instanceof Error) ctx.ui.notify(`Cursor login failed: ${outcome.message}`, "error");
+  else if (outcome?.loggedIn) {
+    noteAuth(profile, outcome);
+    ctx.ui.notify(formatAuthState(outcome), "info");
+  }
+  else ctx.ui.notify("Cursor login did not complete — `agent status` still reports no login.", "error");
 }
 
 // ---------------------------------------------------------------------------
 // Extension entry point
 // ---------------------------------------------------------------------------
 
+/** Reasoning variants of a canonical model, grouped by CLI id (e.g. "low/high → gpt-5.2-codex-high"). */
+function describeVariants(canonicalId: string): string {
+  const family = modelMap[canonicalId];
+  if (!family) return "";
+  const byCursorId = new Map<string, string[]>();
+  for (const level of REASONING_LEVELS) {
+    const cursorId = family[level];
+    if (!cursorId || cursorId === family.default) continue;
+    byCursorId.set(cursorId, [...(byCursorId.get(cursorId) ?? []), level]);
+  }
+  return [...byCursorId].map(([cursorId, levels]) => `${levels.join("/")} → ${cursorId}`).join(", ");
+}
+
+/**
+ * Text listing for /cursor-models: CLI id, canonical id, reasoning variants
+ * and source of each model, followed by any problems in the overrides files.
+ */
+function formatModelList(
+  defs: CursorModelDef[],
+  source: ModelSource,
+  fetchedAt: number | undefined,
+  overrides: ModelOverrides,
+): string {
+  const when = fetchedAt ? new Date(fetchedAt).toLocaleString() : "earlier";
+  const origin = {
+    live: `discovered this session, ${when}`,
+    cached: `cached, discovered ${when}`,
+    static: "static fallback list",
+  }[source];
+  const models = withModelOverrides(defs);
+  const lines = [`${models.length} Cursor models (${origin}):`];
+  for (const m of models) {
+    const discovered = defs.some((d) => d.id === m.id);
+    const tag = !discovered ? "override" : overrides.models[m.id] ? `${source}, overridden` : source;
+    const canonicalId = toCanonicalId(m.id);
+    if (canonicalId === null) {
+      const parent = Object.keys(modelMap).find((id) => Object.values(modelMap[id] ?? {}).includes(m.id));
+      lines.push(`  ${m.id}  [${tag}] variant${parent ? ` of ${parent}` : ""}`);
+      continue;
+    }
+    const alias = canonicalId !== m.id ? ` → ${canonicalId}` : "";
+    const variants = describeVariants(canonicalId);
+    const traits = `${m.reasoning ? " reasoning" : ""}${supportsImages(m) ? " images" : ""}`;
+    lines.push(`  ${m.id}${alias}  [${tag}]${traits}${variants ? `  (${variants})` : ""}`);
+  }
+  if (providerConfig.modeVariants) lines.push("Each model also has read-only <id>:ask and <id>:plan variants.");
+  if (overrides.files.length > 0) lines.push(`Overrides: ${overrides.files.join(", ")}`);
+  if (overrides.errors.length > 0) lines.push("Skipped override entries:", ...overrides.errors.map((e) => `  ${e}`));
+  return lines.join("\n");
+}
+
 /**
  * Build a ProviderModelConfig array from a list of CursorModelDef entries.
- * Uses canonical IDs where a mapping exists and omits variant-only entries.
+ * Applies the user's overrides, uses canonical IDs where a mapping exists,
+ * omits variant-only entries and adds the `:ask`/`:plan` mode variants.
  */
-function toProviderModels(defs: CursorModelDef[]) {
+function toProviderModels(defs: CursorModelDef[], only?: string[]) {
   const seen = new Set<string>();
-  return defs.flatMap((m) => {
+  const models = withModelOverrides(defs).flatMap((m) => {
     const canonicalId = toCanonicalId(m.id);
     if (canonicalId === null) return []; // variant-only; hide
     const id = canonicalId !== m.id ? canonicalId : m.id;
     if (seen.has(id)) return [];
+    // A profile's `models` may name the canonical id or any CLI id of the model.
+    const ids = [id, m.id, ...Object.values(modelMap[id] ?? {})];
+    if (only && !ids.some((cursorId) => only.includes(cursorId))) return [];
     seen.add(id);
-    return [
-      {
-        id,
-        name: `${m.name} (Cursor)`,
-        reasoning: m.reasoning,
-        input: ["text"] as ("text" | "image")[],
-        cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
-        contextWindow: m.contextWindow,
-        maxTokens: m.maxTokens,
-      },
-    ];
+    const model = {
+      id,
+      name: `${m.name} (Cursor)`,
+      // A derived family's base id rarely looks like a reasoning model by itself.
+      reasoning: modelOverrides[m.id]?.reasoning ?? (m.reasoning || derivedIds.has(id)),
+      input: (supportsImages(m) ? ["text", "image"] : ["text"]) as ("text" | "image")[],
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+      contextWindow: m.contextWindow,
+      maxTokens: m.maxTokens,
+    };
+    // Read-only mode variants carry the mode in the id and the name.
+    const variants = providerConfig.modeVariants
+      ? VARIANT_MODES.map((mode) => ({ ...model, id: withMode(id, mode), name: `${m.name} (Cursor, ${mode})` }))
+      : [];
+    return [model, ...variants];
   });
+  return models;
 }
 
-export default async function (pi: ExtensionAPI) {
-  const agentPath =
-    process.env["CURSOR_AGENT_PATH"] ??
-    process.env["AGENT_PATH"] ??
-    "agent";
+// ---------------------------------------------------------------------------
+// Providers
+// One Pi provider per account profile (see src/profiles.ts), each with its
+// own model discovery and model cache.
+// ---------------------------------------------------------------------------
 
-  // Attempt dynamic model discovery; fall back to static list on any failure.
-  let modelDefs: CursorModelDef[];
-  try {
-    modelDefs = await runAgentModels(agentPath);
-  } catch {
-    modelDefs = STATIC_MODELS;
+/** Resolved profiles keyed by Pi provider name; filled when the extension starts. */
+const profilesByProvider = new Map<string, ResolvedProfile>();
+
+/** The profile behind a Pi provider; the environment's account if it is unknown. */
+function profileFor(provider: string): ResolvedProfile {
+  return (
+    profilesByProvider.get(provider) ??
+    profilesByProvider.get(DEFAULT_PROVIDER) ?? { provider: DEFAULT_PROVIDER, agentPath: providerConfig.agentPath, env: process.env }
+  );
+}
+
+interface CursorProvider {
+  profile: ResolvedProfile;
+  modelDefs: CursorModelDef[];
+  modelSource: ModelSource;
+  fetchedAt?: number;
+  /** Register (or re-register) the provider with the current model list. */
+  register(): void;
+  /** Run `agent models`; re-registers the provider if the list changed. */
+  refreshModels(): Promise<ModelCacheEntry>;
+}
+
+/**
+ * Register the provider for a profile. Cached models (or the static list) are
+ * registered right away; discovery runs in the background when the cache is
+ * missing or stale.
+ */
+async function createCursorProvider(pi: ExtensionAPI, profile: ResolvedProfile): Promise<CursorProvider> {
+  const account = await modelCacheAccount(profile.env);
+  const cached = await readModelCache(account);
+  let refreshing: Promise<ModelCacheEntry> | undefined;
+
+  const provider: CursorProvider = {
+    profile,
+    modelDefs: cached?.models ?? STATIC_MODELS,
+    modelSource: cached ? "cached" : "static",
+    fetchedAt: cached?.fetchedAt,
+    register: () => {
+      setDiscoveredModels(profile.provider, provider.modelDefs);
+      pi.registerProvider(profile.provider, {
+        baseUrl: "cli://cursor-agent",
+        apiKey: "CURSOR_API_KEY",
+        api: "cursor-cli" as Api,
+        models: toProviderModels(provider.modelDefs, profile.models),
+        streamSimple: streamCursorCli,
+      });
+    },
+    refreshModels: () => {
+      refreshing ??= (async () => {
+        try {
+          const models = await runAgentModels(profile, providerConfig.discoveryTimeoutMs);
+          const entry = await writeModelCache(account, models).catch(() => ({ fetchedAt: Date.now(), models }));
+          const changed = !sameModels(models, provider.modelDefs);
+          provider.modelDefs = models;
+          provider.modelSource = "live";
+          provider.fetchedAt = entry.fetchedAt;
+          if (changed) provider.register();
+          return entry;
+        } finally {
+          refreshing = undefined;
+        }
+      })();
+      return refreshing;
+    },
+  };
+
+  provider.register();
+  if (!cached || isModelCacheStale(cached)) {
+    // Failures keep the current list; /cursor-models refresh reports them.
+    provider.refreshModels().catch(() => {});
   }
+  return provider;
+}
 
-  pi.registerProvider("cursor", {
-    baseUrl: "cli://cursor-agent",
-    apiKey: "CURSOR_API_KEY",
-    api: "cursor-cli" as Api,
-    models: toProviderModels(modelDefs),
-    streamSimple: streamCursorCli,
-  });
+export default async function (pi: ExtensionAPI) {
+  let loadedConfig: LoadedConfig = await loadProviderConfig(process.cwd());
+  providerConfig = loadedConfig.config;
+  const startConfig = providerConfig;
+
+  let overrides = await loadModelOverrides(process.cwd());
+  setModelOverrides(overrides);
+
+  // The `cursor` provider, then one `cursor-<name>` provider per profile.
+  const profileErrors: string[] = [];
+  const profiles = resolveProfiles(providerConfig, profileErrors);
+  const providers: CursorProvider[] = [];
+  for (const profile of profiles) {
+    profilesByProvider.set(profile.provider, profile);
+    providers.push(await createCursorProvider(pi, profile));
+  }
+  const mainProfile = profiles[0] as ResolvedProfile;
+  const { agentPath, env: agentEnv } = mainProfile;
+
+  /** The profile named in a command's arguments, or the `cursor` provider's. */
+  const pickProfile = (args: string, ctx: ExtensionContext): ResolvedProfile | undefined => {
+    const name = args.trim();
+    if (!name) return mainProfile;
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) {
+      const known = Object.keys(providerConfig.profiles);
+      ctx.ui.notify(`Unknown Cursor profile "${name}". Profiles: ${known.join(", ") || "none configured"}`, "error");
+    }
+    return profile;
+  };
+  const profileCompletions = (prefix: string) => {
+    const items = profiles
+      .filter((p) => p.provider !== DEFAULT_PROVIDER && p.name?.startsWith(prefix.trim()))
+      .map((p) => ({ value: p.name as string, label: p.name as string, description: `provider ${p.provider}` }));
+    return items.length > 0 ? items : null;
+  };
 
   // ---------------------------------------------------------------------------
   // Slash commands for Cursor auth management
   // ---------------------------------------------------------------------------
 
   pi.registerCommand("cursor-login", {
-    description: "Log in to Cursor (runs `agent login`)",
-    handler: async (_args, ctx) => {
-      ctx.ui.notify("Starting Cursor login (NO_OPEN_BROWSER=1 — copy the URL from the output)…", "info");
+    description: "Log in to Cursor (shows the `agent login` URL and waits for the login)",
+    getArgumentCompletions: profileCompletions,
+    handler: async (args, ctx) => {
+      const profile = pickProfile(args, ctx);
+      if (!profile) return;
       try {
-        await runAgentLogin(agentPath);
-        ctx.ui.notify("Cursor login successful.", "info");
+        await loginWithDialog(ctx, profile);
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
         ctx.ui.notify(`Cursor login failed: ${msg}`, "error");
@@ -777,11 +2096,18 @@ export default async function (pi: ExtensionAPI) {
   });
 
   pi.registerCommand("cursor-status", {
-    description: "Show Cursor authentication status (runs `agent status`)",
-    handler: async (_args, ctx) => {
+    description: "Show Cursor authentication status and the profile in use (runs `agent status`)",
+    getArgumentCompletions: profileCompletions,
+    handler: async (args, ctx) => {
+      const profile = pickProfile(args, ctx);
+      if (!profile) return;
       try {
-        const status = await runAgentStatus(agentPath);
-        ctx.ui.notify(status || "No output from `agent status`.", "info");
+        const state = await runAgentStatus(profile.agentPath, profile.env);
+        noteAuth(profile, state);
+        const providerNames = profiles.filter((p) => p.name === profile.name).map((p) => p.provider);
+        const header = `Profile: ${profile.name ?? "none (environment)"} — provider ${providerNames.join(", ")}`;
+        const unparsed = state.raw && !state.email && state.loggedIn ? `\n\n${state.raw}` : "";
+        ctx.ui.notify(`${header}\n${formatAuthState(state)}${unparsed}`, state.loggedIn ? "info" : "warning");
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
         ctx.ui.notify(`Could not get Cursor status: ${msg}`, "error");
@@ -791,12 +2117,15 @@ export default async function (pi: ExtensionAPI) {
 
   pi.registerCommand("cursor-logout", {
     description: "Log out of Cursor (runs `agent logout`)",
-    handler: async (_args, ctx) => {
+    getArgumentCompletions: profileCompletions,
+    handler: async (args, ctx) => {
+      const profile = pickProfile(args, ctx);
+      if (!profile) return;
       try {
         await new Promise<void>((resolve, reject) => {
-          const child = spawn(agentPath, ["logout"], {
+          const child = spawn(profile.agentPath, ["logout"], {
             stdio: "inherit",
-            env: process.env,
+            env: profile.env,
           });
           child.on("error", reject);
           child.on("close", (code) => {
@@ -811,4 +2140,315 @@ export default async function (pi: ExtensionAPI) {
       }
     },
   });
+
+  pi.registerCommand("cursor-mcp", {
+    description: "Manage Cursor MCP servers: list, enable, approve, disable, tools, allow, revoke",
+    getArgumentCompletions: (prefix) => {
+      const items = Object.entries(MCP_SUBCOMMANDS)
+        .filter(([name]) => name.startsWith(prefix.trim()))
+        .map(([name, description]) => ({ value: name, label: name, description }));
+      return items.length > 0 ? items : null;
+    },
+    handler: async (args, ctx) => {
+      const [sub = "list", server, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+      const usage = `Usage: /cursor-mcp [${Object.keys(MCP_SUBCOMMANDS).join("|")}] [server]`;
+      if (!(sub in MCP_SUBCOMMANDS) || rest.length > 0) {
+        ctx.ui.notify(`Unknown arguments "${args.trim()}". ${usage}`, "error");
+        return;
+      }
+      try {
+        if (sub === "list") {
+          ctx.ui.notify(formatMcpServers(await listMcpServers(agentPath, ctx.cwd, agentEnv)), "info");
+          return;
+        }
+        if (!server || !isServerName(server)) {
+          ctx.ui.notify(`/cursor-mcp ${sub} needs a server name. ${usage}`, "error");
+          return;
+        }
+        if (sub === "allow" || sub === "revoke") {
+          ctx.ui.notify(await setServerAllowed(server, sub === "allow", agentEnv), "info");
+          return;
+        }
+        const cliArgs = { enable: ["enable"], approve: ["enable"], disable: ["disable"], tools: ["list-tools"] }[sub] ?? [];
+        const { code, output } = await runAgentMcp(agentPath, [...cliArgs, server], agentEnv);
+        const fallback = code === 0 ? `agent mcp ${cliArgs[0]} ${server}: done.` : `agent mcp exited with code ${code}`;
+        ctx.ui.notify(output || fallback, code === 0 ? "info" : "error");
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        ctx.ui.notify(`/cursor-mcp ${sub} failed: ${msg}`, "error");
+      }
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Model discovery
+  // ---------------------------------------------------------------------------
+
+  pi.on("session_start", (_event, ctx) => {
+    uiContext = ctx;
+    if (providerConfig.statusLine) {
+      updateStatus({});
+      runAgentStatus(agentPath, agentEnv)
+        .then((auth) => noteAuth(mainProfile, auth))
+        .catch(() => {});
+    }
+    if (profileErrors.length > 0) {
+      ctx.ui.notify(`Cursor profiles:\n${profileErrors.join("\n")}`, "warning");
+    }
+    if (loadedConfig.errors.length > 0) {
+      ctx.ui.notify(
+        `Cursor provider config: ignored invalid values (see /cursor-config):\n${loadedConfig.errors.join("\n")}`,
+        "warning",
+      );
+    }
+    if (overrides.errors.length > 0) {
+      ctx.ui.notify(
+        `Cursor model overrides: skipped invalid entries (see /cursor-models):\n${overrides.errors.join("\n")}`,
+        "warning",
+      );
+    }
+  });
+
+  pi.registerCommand("cursor-models", {
+    description: "List Cursor models (use `refresh` to re-run `agent models`)",
+    getArgumentCompletions: (prefix) =>
+      "refresh".startsWith(prefix.trim()) ? [{ value: "refresh", label: "refresh", description: "Re-run model discovery" }] : null,
+    handler: async (args, ctx) => {
+      const sub = args.trim();
+      if (sub && sub !== "refresh") {
+        ctx.ui.notify(`Unknown subcommand "${sub}". Usage: /cursor-models [refresh]`, "error");
+        return;
+      }
+      if (sub === "refresh") {
+        overrides = await loadModelOverrides(ctx.cwd);
+        setModelOverrides(overrides);
+        for (const provider of providers) provider.register();
+        ctx.ui.notify("Discovering Cursor models (runs `agent models`)…", "info");
+        const results = await Promise.allSettled(providers.map((provider) => provider.refreshModels()));
+        const failures = results.flatMap((result, i) => {
+          if (result.status === "fulfilled") return [];
+          const msg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          return [providers.length > 1 ? `${providers[i]?.profile.provider}: ${msg}` : msg];
+        });
+        if (failures.length > 0) {
+          ctx.ui.notify(`Cursor model discovery failed: ${failures.join("\n")}`, "error");
+          return;
+        }
+      }
+      const lists = providers.map((p) => {
+        const list = formatModelList(p.modelDefs, p.modelSource, p.fetchedAt, overrides);
+        return providers.length > 1 ? `[${p.profile.provider}] ${list}` : list;
+      });
+      ctx.ui.notify(lists.join("\n\n"), "info");
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Configuration
+  // ---------------------------------------------------------------------------
+
+  pi.registerCommand("cursor-config", {
+    description: "Show the effective Cursor provider configuration and where each value comes from",
+    getArgumentCompletions: (prefix) =>
+      "reload".startsWith(prefix.trim()) ? [{ value: "reload", label: "reload", description: "Re-read config files and env" }] : null,
+    handler: async (args, ctx) => {
+      const sub = args.trim();
+      if (sub && sub !== "reload") {
+        ctx.ui.notify(`Unknown subcommand "${sub}". Usage: /cursor-config [reload]`, "error");
+        return;
+      }
+      if (sub === "reload") {
+        loadedConfig = await loadProviderConfig(ctx.cwd);
+        providerConfig = loadedConfig.config;
+        updateStatus({});
+      }
+      const override = permissionProfileOverride();
+      const notes =
+        override && override !== providerConfig.permissionProfile
+          ? { permissionProfile: `(this session: ${override}, set with /cursor-permissions)` }
+          : {};
+      let text = formatConfig(loadedConfig, notes);
+      if (sub === "reload" && loadedConfig.config.agentPath !== startConfig.agentPath) {
+        text += "\nagentPath changes apply to model discovery and auth commands after restarting Pi.";
+      }
+      const profileSettings = (c: ProviderConfig) => JSON.stringify([c.profile, c.profiles]);
+      if (sub === "reload" && profileSettings(loadedConfig.config) !== profileSettings(startConfig)) {
+        text += "\nprofile and profiles changes apply after restarting Pi.";
+      }
+      ctx.ui.notify(text, loadedConfig.errors.length > 0 ? "warning" : "info");
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Permission profile
+  // ---------------------------------------------------------------------------
+
+  // streamSimple gets no context of its own; keep the latest one for `ask` mode.
+  pi.on("turn_start", (_event, ctx) => {
+    uiContext = ctx;
+  });
+
+  pi.registerCommand("cursor-permissions", {
+    description: "Show or set the Cursor permission profile (read-only, edits-only, ask, full)",
+    getArgumentCompletions: (prefix) => {
+      const items = Object.entries(PERMISSION_PROFILES)
+        .filter(([name]) => name.startsWith(prefix.trim()))
+        .map(([name, description]) => ({ value: name, label: name, description }));
+      return items.length > 0 ? items : null;
+    },
+    handler: async (args, ctx) => {
+      let choice = args.trim();
+      if (!choice) {
+        const current = getPermissionProfile(providerConfig.permissionProfile);
+        const options = Object.entries(PERMISSION_PROFILES).map(
+          ([name, description]) => `${name}${name === current ? " (current)" : ""} — ${description}`,
+        );
+        const selected = await ctx.ui.select("Cursor permission profile", options);
+        if (!selected) return;
+        choice = selected.split(" ")[0] ?? "";
+      }
+      if (!isPermissionProfile(choice)) {
+        ctx.ui.notify(`Unknown permission profile "${choice}". Use: ${Object.keys(PERMISSION_PROFILES).join(", ")}`, "error");
+        return;
+      }
+      setPermissionProfile(choice);
+      ctx.ui.notify(`Cursor permission profile: ${choice} — ${PERMISSION_PROFILES[choice]}`, "info");
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Isolation
+  // ---------------------------------------------------------------------------
+
+  pi.on("agent_end", async (_event, ctx) => {
+    const ws = await isolated?.catch(() => undefined);
+    if (!ws) return;
+    if (providerConfig.isolation !== "session") {
+      await reviewIsolatedChanges(ctx, ws, false);
+      return;
+    }
+    const pending = (await listChanges(ws)).length;
+    if (pending > 0) ctx.ui.notify(`Cursor has unapplied changes to ${pending} file(s) — /cursor-review to apply them.`, "info");
+  });
+
+  pi.on("session_shutdown", async (_event, ctx) => {
+    const ws = await isolated?.catch(() => undefined);
+    if (!ws) return;
+    // Unreviewed work is never deleted.
+    if ((await listChanges(ws)).length === 0) await dropIsolatedWorkspace(ws);
+    else ctx.ui.notify(`Unapplied Cursor changes are left in ${ws.path}.`, "warning");
+  });
+
+  pi.registerCommand("cursor-review", {
+    description: "Review and apply the changes Cursor made in its isolated workspace",
+    handler: async (_args, ctx) => {
+      const ws = await isolated?.catch(() => undefined);
+      if (!ws) {
+        ctx.ui.notify(
+          providerConfig.isolation === "off"
+            ? "Isolation is off — Cursor edits the project directly (see `isolation` in /cursor-config)."
+            : "No isolated Cursor workspace yet.",
+          "info",
+        );
+        return;
+      }
+      if ((await listChanges(ws)).length === 0) {
+        ctx.ui.notify("Cursor has no unapplied changes.", "info");
+        return;
+      }
+      await reviewIsolatedChanges(ctx, ws, providerConfig.isolation === "session");
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Undo
+  // ---------------------------------------------------------------------------
+
+  pi.registerCommand("cursor-undo", {
+    description: "Restore the files Cursor changed in the last N turns (default 1)",
+    handler: async (args, ctx) => {
+      const n = args.trim() ? Number(args.trim()) : 1;
+      if (!Number.isInteger(n) || n < 1) {
+        ctx.ui.notify("Usage: /cursor-undo [number of turns]", "error");
+        return;
+      }
+      const available = undoableTurns();
+      if (available === 0) {
+        ctx.ui.notify("Nothing to undo — no Cursor turn has changed files yet.", "info");
+        return;
+      }
+      if (n > available) {
+        ctx.ui.notify(`Only the last ${available} Cursor turn(s) can be undone.`, "error");
+        return;
+      }
+      const listing = lastTurns(n)
+        .map(({ turn, changes }) => `${new Date(turn.time).toLocaleTimeString()}\n${formatFileChanges(turn.workspace, changes)}`)
+        .join("\n");
+      if (ctx.hasUI && !(await ctx.ui.confirm(`Undo ${n} Cursor turn(s)?`, `These files go back to their earlier contents:\n${listing}`))) {
+        return;
+      }
+      const { restored, failed } = undoTurns(n);
+      const lines = [`Restored ${restored.length} file(s).`];
+      if (failed.length > 0) lines.push("Not restored:", ...failed.map((f) => `  ${f}`));
+      ctx.ui.notify(lines.join("\n"), failed.length > 0 ? "warning" : "info");
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Diagnostics
+  // ---------------------------------------------------------------------------
+
+  pi.registerCommand("cursor-debug", {
+    description: "Show the command, exit status, result event and unexpected output of the last Cursor run",
+    handler: async (_args, ctx) => {
+      if (!lastRunReport) {
+        ctx.ui.notify("No Cursor run yet in this session.", "info");
+        return;
+      }
+      const { result } = lastRunReport;
+      const problem = result.diagnostics.entries.length > 0 || (result.final && isErrorResult(result.final));
+      ctx.ui.notify(formatRunReport(lastRunReport), problem ? "warning" : "info");
+    },
+  });
+
+  pi.registerCommand("cursor-replay", {
+    description: "Replay a recorded Cursor run through the stream mapping (set `record` to record runs)",
+    getArgumentCompletions: (prefix) => {
+      let files: string[];
+      try {
+        files = readdirSync(recordingsDir()).filter((f) => f.endsWith(".jsonl") && f.startsWith(prefix.trim()));
+      } catch {
+        return null;
+      }
+      return files.length > 0 ? files.map((f) => ({ value: f, label: f })) : null;
+    },
+    handler: async (args, ctx) => {
+      const [name, which] = args.trim().split(/\s+/).filter(Boolean);
+      if (!name) {
+        ctx.ui.notify(
+          `Usage: /cursor-replay <file> [run number]\nRecordings are written to ${recordingsDir()} while \`record\` is enabled (see /cursor-config).`,
+          "info",
+        );
+        return;
+      }
+      // Bare names refer to the recordings directory.
+      const file = existsSync(resolve(ctx.cwd, name)) ? resolve(ctx.cwd, name) : join(recordingsDir(), name);
+      let runs: RecordedRun[];
+      try {
+        runs = await readRecording(file);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        ctx.ui.notify(`Could not read recording: ${msg}`, "error");
+        return;
+      }
+      const index = which ? Number(which) - 1 : runs.length - 1;
+      const recorded = runs[index];
+      if (!recorded) {
+        ctx.ui.notify(`${file} has ${runs.length} recorded run(s); pick one of 1–${runs.length}.`, "error");
+        return;
+      }
+      const events = await replayRecordedRun(recorded);
+      ctx.ui.notify(formatReplay(file, index, runs, events), events.at(-1)?.type === "error" ? "warning" : "info");
+    },
+  });
 }
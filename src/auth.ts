@@ -0,0 +1,178 @@
+/**
+ * Cursor authentication — `agent status` and `agent login` without a terminal.
+ *
+ * Pi's TUI owns the terminal, so the CLI's output is captured instead of
+ * inherited. `agent status` is parsed into an AuthState; `agent login` runs
+ * with NO_OPEN_BROWSER=1, and the sign-in URL (and code, if one is printed)
+ * is picked out of its output for Pi to show in a dialog while the provider
+ * polls `agent status` until the login completes, fails or is cancelled.
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import { stripVTControlCharacters as stripAnsi } from "node:util";
+import { sleep } from "./retry.js";
+
+export type AuthMethod = "api-key" | "browser";
+
+export interface AuthState {
+  loggedIn: boolean;
+  email?: string;
+  plan?: string;
+  /** How the CLI is authenticated; undefined when logged out. */
+  method?: AuthMethod;
+  /** `agent status` output, without colours. */
+  raw: string;
+}
+
+/** What `agent login` asks the user to do. */
+export interface LoginPrompt {
+  url?: string;
+  code?: string;
+}
+
+export interface LoginSession {
+  /** Resolves once the CLI printed a URL, or when it exits without one. */
+  prompt: Promise<LoginPrompt>;
+  /** Resolves when `agent login` exits successfully; rejects otherwise. */
+  done: Promise<void>;
+  /** Stop `agent login`. */
+  cancel(): void;
+}
+
+/** Errors that mean the CLI is not (or no longer) authenticated. */
+const AUTH_ERROR =
+  /\bnot (logged|signed) in\b|\bnot authenticated\b|\bunauthori[sz]ed\b|\b401\b|authentication (failed|required|expired)|\b(invalid|expired) (api key|token|session)\b|please (log|sign) in|run [`'"]?(cursor-)?agent login/i;
+
+/** Appended to turn errors caused by a missing or expired login. */
+export const AUTH_HINT = "Cursor is not logged in — run /cursor-login (or set CURSOR_API_KEY) and try again.";
+
+/** Delay between `agent status` polls while a login is in progress. */
+export const LOGIN_POLL_INTERVAL_MS = 2_000;
+
+/** How long to wait for `agent login` to print its URL before showing the dialog anyway. */
+const LOGIN_PROMPT_WAIT_MS = 10_000;
+
+/** Longest `agent status` may take before it is killed. */
+export const STATUS_TIMEOUT_MS = 15_000;
+
+/** Longest a login may take before it is given up. */
+export const LOGIN_TIMEOUT_MS = 5 * 60_000;
+
+export function isAuthError(...texts: Array<string | undefined>): boolean {
+  return AUTH_ERROR.test(texts.filter(Boolean).join("\n"));
+}
+
+/** Parse `agent status` output. `apiKey` is whether CURSOR_API_KEY is set. */
+export function parseAgentStatus(output: string, apiKey = false): AuthState {
+  const raw = stripAnsi(output).trim();
+  const loggedIn = !/\bnot (logged|signed) in\b|\b(not |un)authenticated\b|\blogged out\b/i.test(raw) && /\b(logged|signed) in\b|\bauthenticated\b/i.test(raw);
+  if (!loggedIn) return { loggedIn, raw };
+  const email = /[\w.+-]+@[\w-]+(\.[\w-]+)+/.exec(raw)?.[0];
+  const plan = /\b(?:plan|subscription|membership)\s*[:=]\s*([^\n,;)]+)/i.exec(raw)?.[1]?.trim();
+  const method: AuthMethod = apiKey || /\bapi[ -]?key\b/i.test(raw) ? "api-key" : "browser";
+  return { loggedIn, email, plan, method, raw };
+}
+
+/** One-line description of an AuthState for notifications. */
+export function formatAuthState(state: AuthState): string {
+  if (!state.loggedIn) return "Not logged in to Cursor — run /cursor-login (or set CURSOR_API_KEY).";
+  const details = [state.plan && `plan: ${state.plan}`, state.method === "api-key" ? "API key" : "browser login"];
+  return `Logged in to Cursor${state.email ? ` as ${state.email}` : ""} (${details.filter(Boolean).join(", ")}).`;
+}
+
+/** Run `agent status` and parse its output. Rejects, killing the CLI, when it takes longer than `timeoutMs`. */
+export function runAgentStatus(
+  agentPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+  timeoutMs = STATUS_TIMEOUT_MS,
+): Promise<AuthState> {
+  return new Promise((resolve, reject) => {
+    let out = "";
+    let timedOut = false;
+    const child = spawn(agentPath, ["status"], {
+      stdio: ["ignore", "pipe", "pipe"],
+      env,
+    });
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGTERM");
+    }, timeoutMs);
+    child.stdout?.on("data", (c: Buffer) => { out += c.toString(); });
+    child.stderr?.on("data", (c: Buffer) => { out += c.toString(); });
+    child.on("error", (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+    child.on("close", () => {
+      clearTimeout(timeout);
+      if (timedOut) reject(new Error(`\`agent status\` did not answer within ${timeoutMs / 1000}s`));
+      else resolve(parseAgentStatus(out, !!env["CURSOR_API_KEY"]));
+    });
+  });
+}
+
+/** Find the sign-in URL and code in `agent login` output. */
+export function parseLoginPrompt(output: string): LoginPrompt {
+  const text = stripAnsi(output);
+  const url = /https?:\/\/[^\s"'<>]+/.exec(text)?.[0];
+  const code = /\bcode\b[^\w\n]*([A-Z0-9]{4,}(?:-[A-Z0-9]{4,})*)\b/i.exec(text)?.[1];
+  return { url, code };
+}
+
+/** Start `agent login` with its output captured (no browser is opened). */
+export function startAgentLogin(agentPath: string, env: NodeJS.ProcessEnv = process.env): LoginSession {
+  let child: ChildProcess | undefined;
+  let output = "";
+  let announce: (prompt: LoginPrompt) => void = () => {};
+  const prompt = new Promise<LoginPrompt>((resolve) => {
+    announce = resolve;
+  });
+  setTimeout(() => announce(parseLoginPrompt(output)), LOGIN_PROMPT_WAIT_MS).unref();
+  const done = new Promise<void>((resolve, reject) => {
+    child = spawn(agentPath, ["login"], {
+      stdio: ["ignore", "pipe", "pipe"],
+      env: { ...env, NO_OPEN_BROWSER: "1" },
+    });
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      const found = parseLoginPrompt(output);
+      if (found.url) announce(found);
+    };
+    child.stdout?.on("data", onData);
+    child.stderr?.on("data", onData);
+    child.on("error", (err) => {
+      announce({});
+      reject(err);
+    });
+    child.on("close", (code, signal) => {
+      announce(parseLoginPrompt(output));
+      if (code === 0) resolve();
+      else {
+        const last = stripAnsi(output).trim().split("\n").at(-1);
+        reject(new Error(signal ? "login cancelled" : `agent login exited with code ${code}${last ? `: ${last}` : ""}`));
+      }
+    });
+  });
+  // `done` is usually awaited later; keep an early failure from going unhandled.
+  done.catch(() => {});
+  return { prompt, done, cancel: () => child?.kill("SIGTERM") };
+}
+
+/**
+ * Poll `agent status` until it reports a login. Resolves undefined when
+ * `signal` aborts or LOGIN_TIMEOUT_MS passes first.
+ */
+export async function waitForLogin(
+  agentPath: string,
+  signal: AbortSignal,
+  env: NodeJS.ProcessEnv = process.env,
+  intervalMs = LOGIN_POLL_INTERVAL_MS,
+): Promise<AuthState | undefined> {
+  const deadline = Date.now() + LOGIN_TIMEOUT_MS;
+  while (!signal.aborted && Date.now() < deadline) {
+    const state = await runAgentStatus(agentPath, env).catch(() => undefined);
+    if (state?.loggedIn) return state;
+    await sleep(intervalMs, signal);
+  }
+  return undefined;
+}
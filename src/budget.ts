@@ -0,0 +1,162 @@
+/**
+ * Context-window budgeting for the serialised transcript.
+ *
+ * The prompt size is estimated against the model's `contextWindow` (minus
+ * room for the reply). When it does not fit, the configured strategy shrinks
+ * the history in stages, stopping as soon as the prompt fits:
+ *
+ *   1. truncate old tool results (oldest first),
+ *   2. replace old tool results with a short stub,
+ *   3. elide the middle of the history, leaving a marker in its place.
+ *
+ * The system prompt and the latest turns are never touched. If even that
+ * minimal prompt does not fit, a ContextBudgetError is thrown.
+ */
+
+import type { Message } from "@mariozechner/pi-ai";
+
+/**
+ * `compact` runs all stages, `elide` skips the tool-result stages and `off`
+ * disables budgeting altogether.
+ */
+export type BudgetStrategy = "compact" | "elide" | "off";
+
+export interface BudgetOptions {
+  contextWindow: number;
+  /** Output token limit of the model; part of it is reserved for the reply. */
+  maxTokens: number;
+  strategy: BudgetStrategy;
+  /** Number of most recent user turns that are always kept verbatim. */
+  keepTurns: number;
+}
+
+/** Characters kept from each old tool result in the truncation stage. */
+const TOOL_RESULT_KEEP_CHARS = 2_000;
+
+/** Rough characters-per-token ratio used for estimates. */
+const CHARS_PER_TOKEN = 4;
+
+/** Separator between serialised blocks (see serializeContext). */
+const BLOCK_SEPARATOR = "\n\n";
+
+/** Thrown when the prompt cannot be made to fit the model's context window. */
+export class ContextBudgetError extends Error {
+  readonly estimatedTokens: number;
+  readonly budgetTokens: number;
+  readonly contextWindow: number;
+
+  constructor(estimatedTokens: number, budgetTokens: number, contextWindow: number) {
+    super(
+      `Prompt does not fit the model's context window even after compaction: ~${estimatedTokens} tokens ` +
+        `for a budget of ${budgetTokens} (context window ${contextWindow}). ` +
+        "Shorten the system prompt or the latest message, or compact the session.",
+    );
+    this.name = "ContextBudgetError";
+    this.estimatedTokens = estimatedTokens;
+    this.budgetTokens = budgetTokens;
+    this.contextWindow = contextWindow;
+  }
+}
+
+function toTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/** Tokens available for the prompt: the window minus a reserve for the reply. */
+export function promptBudget(options: BudgetOptions): number {
+  const reserve = Math.min(options.maxTokens, Math.floor(options.contextWindow / 4));
+  return options.contextWindow - reserve;
+}
+
+/** Index of the first message of the protected tail (the latest `keepTurns` user turns). */
+function tailStart(messages: Message[], keepTurns: number): number {
+  let turns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user" && ++turns >= keepTurns) return i;
+  }
+  return 0;
+}
+
+function truncateToolResult(msg: Message, keepChars: number): Message {
+  if (msg.role !== "toolResult") return msg;
+  let remaining = keepChars;
+  let omitted = 0;
+  const content = msg.content.map((block) => {
+    if (block.type !== "text") return block;
+    if (block.text.length <= remaining) {
+      remaining -= block.text.length;
+      return block;
+    }
+    omitted += block.text.length - remaining;
+    const text = block.text.slice(0, remaining);
+    remaining = 0;
+    return { ...block, text };
+  });
+  if (omitted === 0) return msg;
+  content.push({ type: "text", text: `[… ${omitted} characters of tool output omitted to fit the context window …]` });
+  return { ...msg, content };
+}
+
+/**
+ * Serialise `messages` into transcript blocks that, together with the system
+ * block, fit the model's context window.
+ */
+export function fitToBudget(
+  systemBlock: string | undefined,
+  messages: Message[],
+  serializeMessage: (msg: Message) => string,
+  options: BudgetOptions,
+): string[] {
+  const blocks = messages.map(serializeMessage);
+  if (options.strategy === "off") return blocks.filter(Boolean);
+
+  const budget = promptBudget(options);
+  const cost = (block: string) => (block ? block.length + BLOCK_SEPARATOR.length : 0);
+  let chars = (systemBlock ? cost(systemBlock) : 0) + blocks.reduce((n, b) => n + cost(b), 0);
+  const fits = () => toTokens(chars) <= budget;
+  if (fits()) return blocks.filter(Boolean);
+
+  const tail = tailStart(messages, Math.max(1, options.keepTurns));
+  const replace = (i: number, block: string) => {
+    chars += cost(block) - cost(blocks[i]);
+    blocks[i] = block;
+  };
+
+  if (options.strategy === "compact") {
+    for (let i = 0; i < tail && !fits(); i++) {
+      if (messages[i].role !== "toolResult") continue;
+      replace(i, serializeMessage(truncateToolResult(messages[i], TOOL_RESULT_KEEP_CHARS)));
+    }
+    for (let i = 0; i < tail && !fits(); i++) {
+      const msg = messages[i];
+      if (msg.role !== "toolResult") continue;
+      replace(i, serializeMessage({ ...msg, content: [{ type: "text", text: "[omitted to fit the context window]" }] }));
+    }
+  }
+
+  if (fits()) return blocks.filter(Boolean);
+
+  // Elide the middle: keep the opening message (usually the task) while it
+  // fits, and drop messages after it, oldest first, until the prompt fits.
+  let elided = 0;
+  for (let i = 1; i < tail && !fits(); i++) {
+    if (blocks[i]) elided++;
+    replace(i, "");
+  }
+  if (!fits() && tail > 0 && blocks[0]) {
+    elided++;
+    replace(0, "");
+  }
+
+  if (!fits()) {
+    throw new ContextBudgetError(toTokens(chars), budget, options.contextWindow);
+  }
+
+  const result = blocks.filter(Boolean);
+  if (elided > 0) {
+    const marker = `[… ${elided} earlier message(s) omitted to fit the context window …]`;
+    const markerAt = blocks[0] ? 1 : 0;
+    result.splice(markerAt, 0, marker);
+  }
+  return result;
+}
@@ -0,0 +1,320 @@
+/**
+ * Provider configuration.
+ *
+ * Settings are read from two optional JSON files and the environment, in
+ * increasing order of precedence:
+ *
+ *   ~/.pi/agent/cursor-provider.json      global
+ *   <project>/.pi/cursor-provider.json    per project
+ *   CURSOR_* environment variables
+ *
+ * Example file:
+ *
+ *   {
+ *     "agentPath": "/opt/cursor/agent",
+ *     "extraArgs": ["--sandbox", "enabled"],
+ *     "turnTimeoutMs": 600000,
+ *     "permissionProfile": "edits-only",
+ *     "contextStrategy": "elide"
+ *   }
+ *
+ * Invalid values are reported and ignored, so the next source (or the
+ * default) applies. API keys are deliberately env-only: CURSOR_API_KEY, or the
+ * variable a profile's `apiKeyEnv` names (see src/profiles.ts).
+ */
+
+import { readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import type { BudgetStrategy } from "./budget.js";
+import type { IsolationMode } from "./isolation.js";
+import { isPermissionProfile, type PermissionProfile } from "./permissions.js";
+import { DEFAULT_KILL_GRACE_MS } from "./process-tree.js";
+import { type CursorProfile, PROFILE_NAME } from "./profiles.js";
+import type { PromptTransportPreference } from "./prompt-transport.js";
+import type { TranscriptFormat } from "./transcript.js";
+
+/** Which Pi tools are exposed to the agent over MCP. */
+export type PiToolsMode = "custom" | "all" | "off";
+
+export interface ProviderConfig {
+  /** Cursor Agent CLI binary. */
+  agentPath: string;
+  /** Workspace passed to `agent --workspace`; defaults to Pi's working directory. */
+  workspace?: string;
+  /** Extra arguments appended to every `agent --print` invocation. */
+  extraArgs: string[];
+  /** Timeout (ms) for `agent models`. */
+  discoveryTimeoutMs: number;
+  /** Longest a single assistant message may take before the agent is stopped; 0 disables. */
+  turnTimeoutMs: number;
+  /** Longest the agent may go without printing an event before it is stopped; 0 disables. */
+  idleTimeoutMs: number;
+  /** Delay between SIGTERM and SIGKILL when the agent is stopped. */
+  killGraceMs: number;
+  /** Retries of a transient failure before moving on (see src/retry.ts). */
+  retries: number;
+  /** First retry delay; doubled for each further retry. */
+  retryBaseDelayMs: number;
+  /** Pi or CLI model id (or "*") → models to try when it is unavailable. */
+  fallbackModels: Record<string, string[]>;
+  /** Record every agent run to a JSONL session log (see src/recorder.ts). */
+  record: boolean;
+  /** Run the agent in a scratch worktree per turn or session (see src/isolation.ts). */
+  isolation: IsolationMode;
+  /** Permission profile used until /cursor-permissions picks another. */
+  permissionProfile: PermissionProfile;
+  /** Register read-only `<model>:ask` and `<model>:plan` variants (see src/modes.ts). */
+  modeVariants: boolean;
+  /** Show account, model and turn progress in Pi's footer (see src/status.ts). */
+  statusLine: boolean;
+  /** Named Cursor accounts, each registered as a `cursor-<name>` provider (see src/profiles.ts). */
+  profiles: Record<string, CursorProfile>;
+  /** Profile used by the `cursor` provider; the environment's account when unset. */
+  profile?: string;
+  promptTransport: PromptTransportPreference;
+  contextStrategy: BudgetStrategy;
+  /** Number of latest user turns never compacted. */
+  contextKeepTurns: number;
+  /** How the message history is written into the prompt (see src/transcript.ts). */
+  transcriptFormat: TranscriptFormat;
+  piTools: PiToolsMode;
+}
+
+export type ConfigKey = keyof ProviderConfig;
+
+export interface LoadedConfig {
+  config: ProviderConfig;
+  /** Where each value came from: "default", "env NAME" or a file path. */
+  sources: Record<ConfigKey, string>;
+  /** Files that were read, in merge order. */
+  files: string[];
+  /** Problems found while reading files and env vars. */
+  errors: string[];
+}
+
+export const CONFIG_FILE = "cursor-provider.json";
+
+export const DEFAULT_CONFIG: ProviderConfig = {
+  agentPath: "agent",
+  extraArgs: [],
+  discoveryTimeoutMs: 15_000,
+  turnTimeoutMs: 0,
+  idleTimeoutMs: 600_000,
+  killGraceMs: DEFAULT_KILL_GRACE_MS,
+  retries: 2,
+  retryBaseDelayMs: 1_000,
+  fallbackModels: {},
+  record: false,
+  isolation: "off",
+  permissionProfile: "full",
+  modeVariants: true,
+  statusLine: true,
+  profiles: {},
+  promptTransport: "auto",
+  contextStrategy: "compact",
+  contextKeepTurns: 2,
+  transcriptFormat: "xml",
+  piTools: "custom",
+};
+
+/** Parses a file (typed JSON) or env (string) value; returns an error message on failure. */
+type Parser = (value: unknown, fromEnv: boolean) => { value: unknown } | { error: string };
+
+interface FieldSpec {
+  /** Env vars, highest precedence first. */
+  env: string[];
+  parse: Parser;
+}
+
+const oneOf =
+  (...allowed: string[]): Parser =>
+  (value) => {
+    const v = typeof value === "string" ? value.trim().toLowerCase() : value;
+    return typeof v === "string" && allowed.includes(v)
+      ? { value: v }
+      : { error: `must be one of ${allowed.join(", ")}` };
+  };
+
+const integer =
+  (min: number): Parser =>
+  (value, fromEnv) => {
+    const n = fromEnv && typeof value === "string" ? Number(value.trim()) : value;
+    return typeof n === "number" && Number.isInteger(n) && n >= min
+      ? { value: n }
+      : { error: `must be an integer ≥ ${min}` };
+  };
+
+const flag: Parser = (value, fromEnv) => {
+  if (typeof value === "boolean") return { value };
+  const v = fromEnv && typeof value === "string" ? value.trim().toLowerCase() : undefined;
+  if (v === "1" || v === "true") return { value: true };
+  if (v === "0" || v === "false") return { value: false };
+  return { error: fromEnv ? "must be 1, 0, true or false" : "must be true or false" };
+};
+
+const nonEmptyString: Parser = (value) =>
+  typeof value === "string" && value.trim() ? { value: value.trim() } : { error: "must be a non-empty string" };
+
+const stringList: Parser = (value, fromEnv) => {
+  // Env values are whitespace-separated; files use a JSON array.
+  if (fromEnv && typeof value === "string") return { value: value.split(/\s+/).filter(Boolean) };
+  return Array.isArray(value) && value.every((v) => typeof v === "string")
+    ? { value }
+    : { error: "must be an array of strings" };
+};
+
+const fallbackMap: Parser = (value, fromEnv) => {
+  // Env: whitespace-separated `model=fallback,fallback` entries.
+  if (fromEnv && typeof value === "string") {
+    const map: Record<string, string[]> = {};
+    for (const entry of value.split(/\s+/).filter(Boolean)) {
+      const [model, list] = entry.split("=");
+      const chain = list?.split(",").filter(Boolean) ?? [];
+      if (!model || chain.length === 0) return { error: `"${entry}" is not model=fallback[,fallback…]` };
+      map[model] = chain;
+    }
+    return { value: map };
+  }
+  const valid =
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => Array.isArray(v) && v.every((id) => typeof id === "string" && id.trim()));
+  return valid ? { value } : { error: "must be an object mapping model ids to arrays of model ids" };
+};
+
+const PROFILE_FIELDS = ["apiKeyEnv", "configDir", "agentPath", "models"];
+
+const profileMap: Parser = (value, fromEnv) => {
+  // Env: the same JSON object as in files.
+  let data = value;
+  if (fromEnv && typeof value === "string") {
+    try {
+      data = JSON.parse(value);
+    } catch {
+      return { error: "must be a JSON object" };
+    }
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return { error: "must be an object mapping profile names to profiles" };
+  for (const [name, profile] of Object.entries(data)) {
+    if (!PROFILE_NAME.test(name)) return { error: `"${name}" is not a valid profile name (letters, digits, - and _)` };
+    if (!profile || typeof profile !== "object" || Array.isArray(profile)) return { error: `${name}: must be an object` };
+    for (const [field, v] of Object.entries(profile)) {
+      if (!PROFILE_FIELDS.includes(field)) return { error: `${name}.${field}: unknown field (expected ${PROFILE_FIELDS.join(", ")})` };
+      const ok = field === "models" ? Array.isArray(v) && v.every((id) => typeof id === "string") : typeof v === "string" && v.trim();
+      if (!ok) return { error: `${name}.${field}: must be ${field === "models" ? "an array of model ids" : "a non-empty string"}` };
+    }
+  }
+  return { value: data };
+};
+
+const FIELDS: Record<ConfigKey, FieldSpec> = {
+  agentPath: { env: ["CURSOR_AGENT_PATH", "AGENT_PATH"], parse: nonEmptyString },
+  workspace: { env: ["CURSOR_WORKSPACE"], parse: nonEmptyString },
+  extraArgs: { env: ["CURSOR_EXTRA_ARGS"], parse: stringList },
+  discoveryTimeoutMs: { env: ["CURSOR_DISCOVERY_TIMEOUT_MS"], parse: integer(1) },
+  turnTimeoutMs: { env: ["CURSOR_TURN_TIMEOUT_MS"], parse: integer(0) },
+  idleTimeoutMs: { env: ["CURSOR_IDLE_TIMEOUT_MS"], parse: integer(0) },
+  killGraceMs: { env: ["CURSOR_KILL_GRACE_MS"], parse: integer(0) },
+  retries: { env: ["CURSOR_RETRIES"], parse: integer(0) },
+  retryBaseDelayMs: { env: ["CURSOR_RETRY_BASE_DELAY_MS"], parse: integer(0) },
+  fallbackModels: { env: ["CURSOR_FALLBACK_MODELS"], parse: fallbackMap },
+  record: { env: ["CURSOR_RECORD"], parse: flag },
+  isolation: { env: ["CURSOR_ISOLATION"], parse: oneOf("off", "turn", "session") },
+  permissionProfile: {
+    env: ["CURSOR_PERMISSION_PROFILE"],
+    parse: (value) => {
+      const v = typeof value === "string" ? value.trim().toLowerCase() : "";
+      return isPermissionProfile(v) ? { value: v } : { error: "must be one of read-only, edits-only, ask, full" };
+    },
+  },
+  modeVariants: { env: ["CURSOR_MODE_VARIANTS"], parse: flag },
+  statusLine: { env: ["CURSOR_STATUS_LINE"], parse: flag },
+  profiles: { env: ["CURSOR_PROFILES"], parse: profileMap },
+  profile: { env: ["CURSOR_PROFILE"], parse: nonEmptyString },
+  promptTransport: { env: ["CURSOR_PROMPT_TRANSPORT"], parse: oneOf("auto", "stdin", "file") },
+  contextStrategy: { env: ["CURSOR_CONTEXT_STRATEGY"], parse: oneOf("compact", "elide", "off") },
+  contextKeepTurns: { env: ["CURSOR_CONTEXT_KEEP_TURNS"], parse: integer(1) },
+  transcriptFormat: { env: ["CURSOR_TRANSCRIPT_FORMAT"], parse: oneOf("xml", "plain") },
+  piTools: { env: ["CURSOR_PI_TOOLS"], parse: oneOf("custom", "all", "off") },
+};
+
+/** Config files for `cwd`, global first. */
+export function configFiles(cwd: string): string[] {
+  return [join(getAgentDir(), CONFIG_FILE), join(cwd, ".pi", CONFIG_FILE)];
+}
+
+async function readConfigFile(file: string, errors: string[]): Promise<Record<string, unknown> | undefined> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+  try {
+    const data = JSON.parse(text) as unknown;
+    if (data && typeof data === "object" && !Array.isArray(data)) return data as Record<string, unknown>;
+    errors.push(`${file}: must contain a JSON object`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    errors.push(`${file}: could not parse: ${msg}`);
+  }
+  return undefined;
+}
+
+/** Load the effective configuration for a project directory. Never throws. */
+export async function loadProviderConfig(cwd: string, env: NodeJS.ProcessEnv = process.env): Promise<LoadedConfig> {
+  const values: Record<string, unknown> = { ...DEFAULT_CONFIG };
+  const sources = Object.fromEntries(Object.keys(FIELDS).map((k) => [k, "default"])) as Record<ConfigKey, string>;
+  const files: string[] = [];
+  const errors: string[] = [];
+
+  for (const file of configFiles(cwd)) {
+    const data = await readConfigFile(file, errors);
+    if (!data) continue;
+    files.push(file);
+    for (const [key, raw] of Object.entries(data)) {
+      const spec = FIELDS[key as ConfigKey];
+      if (!spec) {
+        errors.push(`${file}: ${key}: unknown setting (expected ${Object.keys(FIELDS).join(", ")})`);
+        continue;
+      }
+      const parsed = spec.parse(raw, false);
+      if ("error" in parsed) {
+        errors.push(`${file}: ${key}: ${parsed.error}`);
+        continue;
+      }
+      values[key] = key === "workspace" ? resolve(cwd, parsed.value as string) : parsed.value;
+      sources[key as ConfigKey] = file;
+    }
+  }
+
+  for (const [key, spec] of Object.entries(FIELDS) as [ConfigKey, FieldSpec][]) {
+    const name = spec.env.find((n) => env[n] !== undefined && env[n] !== "");
+    if (!name) continue;
+    const parsed = spec.parse(env[name], true);
+    if ("error" in parsed) {
+      errors.push(`${name}: ${parsed.error}`);
+      continue;
+    }
+    values[key] = key === "workspace" ? resolve(cwd, parsed.value as string) : parsed.value;
+    sources[key] = `env ${name}`;
+  }
+
+  return { config: values as unknown as ProviderConfig, sources, files, errors };
+}
+
+/** Text shown by /cursor-config. */
+export function formatConfig(loaded: LoadedConfig, notes: Partial<Record<ConfigKey, string>> = {}): string {
+  const lines = ["Cursor provider configuration:"];
+  for (const key of Object.keys(FIELDS) as ConfigKey[]) {
+    const value = loaded.config[key];
+    const unset = key === "workspace" ? "(Pi working directory)" : "(none)";
+    const shown = value === undefined ? unset : JSON.stringify(value);
+    lines.push(`  ${key}: ${shown}  [${loaded.sources[key]}]${notes[key] ? ` ${notes[key]}` : ""}`);
+  }
+  lines.push(`Files: ${loaded.files.length > 0 ? loaded.files.join(", ") : "none"}`);
+  if (loaded.errors.length > 0) lines.push("Ignored values:", ...loaded.errors.map((e) => `  ${e}`));
+  return lines.join("\n");
+}
@@ -0,0 +1,156 @@
+/**
+ * Per-turn Cursor configuration overlay.
+ *
+ * Some turns need extra Cursor CLI configuration — an MCP server registered
+ * for the turn, additional permission rules — without touching the user's own
+ * files. The overlay is a temporary directory passed to the agent through
+ * CURSOR_CONFIG_DIR: every entry of the user's config directory is symlinked
+ * into it, except `cli-config.json` and `mcp.json`, which are written as the
+ * user's files merged with the turn's additions.
+ *
+ * /cursor-mcp changes the user's `cli-config.json` itself; updateAllowRules
+ * merges its rules into the file and replaces it atomically.
+ */
+
+import { lstat, mkdir, mkdtemp, readdir, readFile, realpath, rename, rm, symlink, writeFile } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+
+/** A stdio MCP server entry as written to `mcp.json`. */
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+export interface ConfigOverlayOptions {
+  /** MCP servers to add to (or replace in) the user's `mcp.json`. */
+  mcpServers?: Record<string, McpServerConfig>;
+  /** Permission rules appended to `permissions.allow`. */
+  allow?: string[];
+  /** Permission rules appended to `permissions.deny`. */
+  deny?: string[];
+}
+
+export interface ConfigOverlay {
+  dir: string;
+  /** Environment variables that point the agent at the overlay. */
+  env: Record<string, string>;
+  /** Remove the overlay directory. Safe to call twice. */
+  cleanup(): Promise<void>;
+}
+
+export const CLI_CONFIG_FILE = "cli-config.json";
+export const MCP_CONFIG_FILE = "mcp.json";
+
+/** The user's Cursor config directory (CURSOR_CONFIG_DIR or ~/.cursor). */
+export function cursorConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env["CURSOR_CONFIG_DIR"] ?? join(homedir(), ".cursor");
+}
+
+export async function readJsonObject(file: string): Promise<Record<string, unknown>> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch {
+    return {};
+  }
+  try {
+    const value = JSON.parse(text) as unknown;
+    return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse ${file}: ${msg}`);
+  }
+}
+
+export function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function appendUnique(existing: unknown, additions: string[]): string[] {
+  const list = Array.isArray(existing) ? existing.filter((v): v is string => typeof v === "string") : [];
+  for (const rule of additions) if (!list.includes(rule)) list.push(rule);
+  return list;
+}
+
+/** Merge permission rules into a parsed `cli-config.json` object. */
+export function mergePermissions(
+  config: Record<string, unknown>,
+  allow: string[] = [],
+  deny: string[] = [],
+): Record<string, unknown> {
+  const permissions = asObject(config.permissions);
+  return {
+    ...config,
+    permissions: {
+      ...permissions,
+      allow: appendUnique(permissions.allow, allow),
+      deny: appendUnique(permissions.deny, deny),
+    },
+  };
+}
+
+/**
+ * Add and remove `permissions.allow` rules in the user's `cli-config.json`,
+ * keeping every other setting. The file is written to a temporary name and
+ * renamed over the original, so a failed write never leaves it truncated; an
+ * unparseable file is reported and left alone. Returns whether it changed.
+ */
+export async function updateAllowRules(
+  add: string[],
+  remove: string[] = [],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<boolean> {
+  const dir = cursorConfigDir(env);
+  // A symlinked file (e.g. from a dotfiles repo) is updated where it lives.
+  const file = await realpath(join(dir, CLI_CONFIG_FILE)).catch(() => join(dir, CLI_CONFIG_FILE));
+  const config = await readJsonObject(file);
+  const permissions = asObject(config.permissions);
+  const before = appendUnique(permissions.allow, []);
+  const allow = appendUnique(before, add).filter((rule) => !remove.includes(rule));
+  if (allow.length === before.length && allow.every((rule, i) => rule === before[i])) return false;
+
+  await mkdir(dir, { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, `${JSON.stringify({ ...config, permissions: { ...permissions, allow } }, null, 2)}\n`, { mode: 0o600 });
+  await rename(temp, file);
+  return true;
+}
+
+/** Create a config overlay for one agent run, on top of the config directory `env` names. */
+export async function createConfigOverlay(
+  options: ConfigOverlayOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<ConfigOverlay> {
+  const baseDir = cursorConfigDir(env);
+  const dir = await mkdtemp(join(tmpdir(), "pi-cursor-config-"));
+  const cleanup = () => rm(dir, { recursive: true, force: true });
+
+  try {
+    let entries: string[] = [];
+    try {
+      entries = await readdir(baseDir);
+    } catch {
+      // No user config yet; the overlay only contains our files.
+    }
+    for (const name of entries) {
+      if (name === CLI_CONFIG_FILE || name === MCP_CONFIG_FILE) continue;
+      const target = join(baseDir, name);
+      const isDir = (await lstat(target)).isDirectory();
+      await symlink(target, join(dir, name), isDir ? "junction" : "file");
+    }
+
+    const cliConfig = mergePermissions(await readJsonObject(join(baseDir, CLI_CONFIG_FILE)), options.allow, options.deny);
+    await writeFile(join(dir, CLI_CONFIG_FILE), JSON.stringify(cliConfig, null, 2), { mode: 0o600 });
+
+    const mcpConfig = await readJsonObject(join(baseDir, MCP_CONFIG_FILE));
+    const mcpServers = { ...asObject(mcpConfig.mcpServers), ...options.mcpServers };
+    await writeFile(join(dir, MCP_CONFIG_FILE), JSON.stringify({ ...mcpConfig, mcpServers }, null, 2), { mode: 0o600 });
+  } catch (err) {
+    await cleanup().catch(() => {});
+    throw err;
+  }
+
+  return { dir, env: { CURSOR_CONFIG_DIR: dir }, cleanup };
+}
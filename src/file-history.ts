@@ -0,0 +1,299 @@
+/**
+ * File history — what Cursor changed in each turn, and how to undo it.
+ *
+ * The agent edits files itself, outside Pi's tool pipeline, and may already
+ * have written a file by the time Pi reads the tool call's `started` event.
+ * So before a turn's first run starts, captureBaseline records where a git
+ * workspace stands: `git stash create` for tracked files (including
+ * uncommitted changes) and the size and mtime of each untracked file — no
+ * contents. The first `editToolCall`, `writeToolCall` or `deleteToolCall`
+ * naming a file in a turn reads the file's baseline lazily and in the
+ * background: `git show` for tracked files, or the file itself for untracked
+ * ones that still match their recorded size and mtime. Ignored files, files
+ * outside the repository and workspaces that are not git repositories fall
+ * back to reading the file when the event arrives.
+ *
+ * When the run ends, files whose contents differ from their snapshot are the
+ * turn's changes; /cursor-undo writes the snapshots back, newest turn first.
+ * History lives in memory for the Pi process and keeps the last
+ * MAX_UNDO_TURNS turns. Files over MAX_SNAPSHOT_BYTES are listed but cannot
+ * be restored.
+ */
+
+import { execFile } from "node:child_process";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { dirname, relative, resolve, sep } from "node:path";
+import { promisify } from "node:util";
+
+export const MAX_UNDO_TURNS = 20;
+
+export const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024;
+
+/** Cursor tools that change files, by CLI event key. */
+export const FILE_CHANGING_TOOLS = new Set(["editToolCall", "writeToolCall", "deleteToolCall"]);
+
+interface FileSnapshot {
+  /** Contents before the turn; undefined when the file did not exist. */
+  before?: Buffer;
+  /** Why the file could not be snapshotted. */
+  skipped?: string;
+}
+
+/** An untracked file as the baseline saw it. */
+interface FileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+/** A git workspace as it was when the turn's first run started. */
+export interface GitBaseline {
+  /** Repository root. */
+  root: string;
+  /** Commit with the working tree of tracked files (`git stash create`, or HEAD when clean). */
+  commit: string;
+  /** Untracked, not ignored files, keyed by absolute path. */
+  untracked: Map<string, FileStamp>;
+}
+
+/** Files touched by one agent run. */
+export interface TurnFiles {
+  workspace: string;
+  /** When the run started (ms). */
+  time: number;
+  /** Snapshots keyed by absolute path, read in the background. */
+  files: Map<string, Promise<FileSnapshot>>;
+  /** The workspace before the run; undefined outside git. */
+  baseline?: GitBaseline;
+}
+
+export type FileStatus = "added" | "modified" | "deleted";
+
+export interface FileChange {
+  /** Absolute path. */
+  path: string;
+  status: FileStatus;
+  /** Set when the change cannot be undone. */
+  skipped?: string;
+}
+
+interface RecordedTurn {
+  turn: TurnFiles;
+  changes: FileChange[];
+  /** The settled snapshots of `turn.files`. */
+  snapshots: Map<string, FileSnapshot>;
+}
+
+/** Recorded turns with changes, oldest first. */
+const history: RecordedTurn[] = [];
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], { encoding: "utf8", maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+async function gitShow(root: string, spec: string): Promise<FileSnapshot | undefined> {
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", root, "show", spec], { encoding: "buffer", maxBuffer: MAX_SNAPSHOT_BYTES });
+    return { before: stdout };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER" || code === "ENOBUFS") return { skipped: "too large to snapshot" };
+    return undefined;
+  }
+}
+
+/**
+ * The file's current contents, or why they cannot be kept. With `stamp`, only
+ * while the file still has that size and mtime.
+ */
+async function readSnapshot(file: string, stamp?: FileStamp): Promise<FileSnapshot> {
+  try {
+    const info = await stat(file).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    });
+    if (!info) return stamp ? { skipped: "changed before it could be snapshotted" } : {};
+    if (!info.isFile()) return { skipped: "not a regular file" };
+    if (info.size > MAX_SNAPSHOT_BYTES) return { skipped: "too large to snapshot" };
+    if (stamp && (info.size !== stamp.size || info.mtimeMs !== stamp.mtimeMs)) {
+      return { skipped: "changed before it could be snapshotted" };
+    }
+    return { before: await readFile(file) };
+  } catch (error) {
+    return { skipped: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * `git stash create`; empty when there is nothing to stash. Git exits 1
+ * without output when files only look changed (say, rewritten with the same
+ * contents), which also means there is nothing to stash.
+ */
+async function stashCreate(root: string): Promise<string> {
+  try {
+    return (await git(root, ["stash", "create"])).trim();
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 1) return "";
+    throw error;
+  }
+}
+
+/**
+ * Baseline of a git workspace; undefined when it is not one (or has no commit
+ * yet). Call before the agent is spawned; a turn's retries and fallbacks
+ * share it, since a run that streamed nothing changed nothing.
+ */
+export async function captureBaseline(workspace: string): Promise<GitBaseline | undefined> {
+  try {
+    const root = (await git(workspace, ["rev-parse", "--show-toplevel"])).trim();
+    const commit = (await stashCreate(root)) || (await git(root, ["rev-parse", "HEAD"])).trim();
+    const paths = (await git(root, ["ls-files", "-z", "--others", "--exclude-standard"])).split("\0").filter(Boolean);
+    const untracked = new Map<string, FileStamp>();
+    for (const path of paths) {
+      const file = resolve(root, path);
+      const info = await stat(file).catch(() => undefined);
+      if (info?.isFile()) untracked.set(file, { size: info.size, mtimeMs: info.mtimeMs });
+    }
+    return { root, commit, untracked };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Start the file record of a run against its turn's baseline. */
+export function createTurnFiles(workspace: string, baseline: GitBaseline | undefined): TurnFiles {
+  return { workspace, time: Date.now(), files: new Map(), baseline };
+}
+
+/** `file` as it was in the baseline, or as it is now when the baseline cannot tell. */
+async function baselineSnapshot(baseline: GitBaseline, file: string): Promise<FileSnapshot> {
+  const path = relative(baseline.root, file);
+  if (path.startsWith("..")) return readSnapshot(file);
+  const stamp = baseline.untracked.get(file);
+  if (stamp) return readSnapshot(file, stamp);
+  const fromCommit = await gitShow(baseline.root, `${baseline.commit}:${path.split(sep).join("/")}`);
+  if (fromCommit) return fromCommit;
+  // Not in the baseline: either ignored, and not recorded, or created by the run.
+  try {
+    await execFileAsync("git", ["-C", baseline.root, "check-ignore", "-q", path]);
+    return readSnapshot(file);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Snapshot `path` (relative to the workspace or absolute) unless this turn
+ * already did. The snapshot is read in the background; turnChanges waits for it.
+ */
+export function snapshotFile(turn: TurnFiles, path: string): void {
+  const file = resolve(turn.workspace, path);
+  if (turn.files.has(file)) return;
+  turn.files.set(file, turn.baseline ? baselineSnapshot(turn.baseline, file) : readSnapshot(file));
+}
+
+async function readCurrent(file: string): Promise<Buffer | undefined> {
+  try {
+    return await readFile(file);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The turn's snapshots, once read. */
+async function settleSnapshots(turn: TurnFiles): Promise<Map<string, FileSnapshot>> {
+  const entries = await Promise.all([...turn.files].map(async ([path, snapshot]) => [path, await snapshot] as const));
+  return new Map(entries);
+}
+
+async function changesFrom(snapshots: Map<string, FileSnapshot>): Promise<FileChange[]> {
+  const changes: FileChange[] = [];
+  for (const [path, snapshot] of snapshots) {
+    const now = await readCurrent(path);
+    if (snapshot.skipped) {
+      changes.push({ path, status: now ? "modified" : "deleted", skipped: snapshot.skipped });
+    } else if (!snapshot.before) {
+      if (now) changes.push({ path, status: "added" });
+    } else if (!now) {
+      changes.push({ path, status: "deleted" });
+    } else if (!now.equals(snapshot.before)) {
+      changes.push({ path, status: "modified" });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Files whose contents now differ from their snapshot. */
+export async function turnChanges(turn: TurnFiles): Promise<FileChange[]> {
+  return changesFrom(await settleSnapshots(turn));
+}
+
+/** Add a finished turn to the undo history; returns its changes (empty turns are not kept). */
+export async function recordTurnFiles(turn: TurnFiles): Promise<FileChange[]> {
+  const snapshots = await settleSnapshots(turn);
+  const changes = await changesFrom(snapshots);
+  if (changes.length === 0) return changes;
+  history.push({ turn, changes, snapshots });
+  if (history.length > MAX_UNDO_TURNS) history.shift();
+  return changes;
+}
+
+const STATUS_LETTER: Record<FileStatus, string> = { added: "A", modified: "M", deleted: "D" };
+
+/** `M src/a.ts` lines, paths relative to the workspace. */
+export function formatFileChanges(workspace: string, changes: FileChange[]): string {
+  return changes
+    .map((c) => `  ${STATUS_LETTER[c.status]} ${relative(workspace, c.path)}${c.skipped ? ` (cannot undo: ${c.skipped})` : ""}`)
+    .join("\n");
+}
+
+/** Number of turns /cursor-undo can restore. */
+export function undoableTurns(): number {
+  return history.length;
+}
+
+/** The last `n` recorded turns, newest first, without removing them. */
+export function lastTurns(n: number): Array<{ turn: TurnFiles; changes: FileChange[] }> {
+  return history.slice(-n).reverse();
+}
+
+export interface UndoResult {
+  restored: string[];
+  /** Paths that could not be restored, with the reason. */
+  failed: string[];
+}
+
+/**
+ * Restore the files of the last `n` turns to their contents before the
+ * oldest of them, and drop those turns from the history.
+ */
+export function undoTurns(n: number): UndoResult {
+  const result: UndoResult = { restored: [], failed: [] };
+  const restored = new Set<string>();
+  for (const { changes, snapshots } of history.splice(-n).reverse()) {
+    for (const { path } of changes) {
+      const snapshot = snapshots.get(path);
+      if (!snapshot) continue;
+      if (snapshot.skipped) {
+        result.failed.push(`${path}: ${snapshot.skipped}`);
+        continue;
+      }
+      try {
+        if (snapshot.before) {
+          mkdirSync(dirname(path), { recursive: true });
+          writeFileSync(path, snapshot.before);
+        } else if (existsSync(path)) {
+          rmSync(path);
+        }
+        restored.add(path);
+      } catch (error) {
+        result.failed.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  result.restored = [...restored].sort();
+  return result;
+}
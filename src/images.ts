@@ -0,0 +1,94 @@
+/**
+ * Image attachments — how pasted screenshots reach the Cursor agent.
+ *
+ * The CLI's `--print` prompt is text only, but the agent can view image files
+ * in its workspace. Images from the Pi conversation are therefore decoded into
+ * a per-turn directory inside the workspace,
+ *
+ *   <workspace>/.pi/cursor-images/<turn id>/image-1.png
+ *
+ * and the prompt references them by path with an instruction to open them.
+ * Identical images (e.g. the same screenshot replayed with the history) are
+ * written once. The directory is git-ignored and removed when the turn ends.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readdir, rm, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { ImageContent } from "@mariozechner/pi-ai";
+
+const IMAGES_DIR = join(".pi", "cursor-images");
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+};
+
+/** Images referenced by one turn's prompt. */
+export interface ImageAttachments {
+  /** Per-turn directory; created on the first write. */
+  dir: string;
+  /** Path of each distinct image, keyed by a hash of its data. */
+  paths: Map<string, string>;
+  /** Images not written to disk yet, keyed by path. */
+  pending: Map<string, ImageContent>;
+}
+
+export function createImageAttachments(workspacePath: string): ImageAttachments {
+  return { dir: join(workspacePath, IMAGES_DIR, randomUUID()), paths: new Map(), pending: new Map() };
+}
+
+/** Register an image and return the path the prompt should reference. */
+export function attachImage(attachments: ImageAttachments, image: ImageContent): string {
+  const hash = createHash("sha256").update(image.data).digest("hex");
+  let path = attachments.paths.get(hash);
+  if (!path) {
+    const ext = EXTENSIONS[image.mimeType.toLowerCase()] ?? "img";
+    path = join(attachments.dir, `image-${attachments.paths.size + 1}.${ext}`);
+    attachments.paths.set(hash, path);
+    attachments.pending.set(path, image);
+  }
+  return path;
+}
+
+/** Prompt text standing in for an attached image. */
+export function imageReference(path: string, mimeType: string): string {
+  return `[Image: ${path} (${mimeType}) — open this file to view the image]`;
+}
+
+/**
+ * Write the pending images that `prompt` references. Images of messages the
+ * context budget dropped are not written.
+ */
+export async function writeImageAttachments(attachments: ImageAttachments, prompt: string): Promise<void> {
+  const used = [...attachments.pending].filter(([path]) => prompt.includes(path));
+  if (used.length === 0) return;
+  const parent = dirname(attachments.dir);
+  await mkdir(attachments.dir, { recursive: true, mode: 0o700 });
+  // Keeps the attachments out of `git status` and commits, including the agent's.
+  await writeFile(join(parent, ".gitignore"), "*\n");
+  for (const [path, image] of used) {
+    await writeFile(path, Buffer.from(image.data, "base64"), { mode: 0o600 });
+    attachments.pending.delete(path);
+  }
+}
+
+/**
+ * Remove the turn's directory, the shared parent once no other turn uses it,
+ * and `.pi` if that leaves it empty.
+ */
+export async function removeImageAttachments(attachments: ImageAttachments): Promise<void> {
+  if (attachments.paths.size === 0) return;
+  await rm(attachments.dir, { recursive: true, force: true });
+  const parent = dirname(attachments.dir);
+  const entries = await readdir(parent).catch(() => undefined);
+  if (entries?.every((e) => e === ".gitignore")) {
+    await rm(parent, { recursive: true, force: true });
+    await rmdir(dirname(parent)).catch(() => {});
+  }
+}
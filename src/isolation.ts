@@ -0,0 +1,229 @@
+/**
+ * Isolated workspaces — letting the agent edit a scratch copy of the project.
+ *
+ * With `isolation` set to "turn" or "session", the agent's `--workspace` is a
+ * temporary directory instead of the project itself:
+ *
+ *   git repository   a detached `git worktree` of HEAD, with the uncommitted
+ *                    changes and untracked files of the working tree copied in
+ *   anything else    a plain copy, without .git and node_modules
+ *
+ * Every file is hashed when the workspace is created. Comparing against those
+ * hashes later gives the agent's changes, which Pi shows for review and copies
+ * back file by file. A file that was also changed in the project since then is
+ * a conflict and is left alone.
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { cp, lstat, mkdir, mkdtemp, readdir, readFile, readlink, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { promisify } from "node:util";
+import { compactDiff } from "./tool-format.js";
+
+export type IsolationMode = "off" | "turn" | "session";
+
+export interface IsolatedWorkspace {
+  kind: "worktree" | "copy";
+  /** Project directory the changes are applied to. */
+  source: string;
+  /** Directory the agent works in. */
+  path: string;
+  /** Temporary directory holding the worktree or copy. */
+  root: string;
+  /** Top level of the repository the worktree belongs to. */
+  repo?: string;
+  /** Hash of every file when the workspace was created or last applied, by relative path. */
+  baseline: Map<string, string>;
+}
+
+export type ChangeStatus = "added" | "modified" | "deleted";
+
+export interface WorkspaceChange {
+  /** Path relative to the workspace. */
+  path: string;
+  status: ChangeStatus;
+}
+
+export interface ApplyResult {
+  applied: string[];
+  /** Files changed in the project since the workspace was created; not applied. */
+  conflicts: string[];
+}
+
+/** Never copied into, or compared in, a plain-copy workspace. */
+const SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+/** Longest diff shown for a review, in lines. */
+const MAX_DIFF_LINES = 400;
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], { encoding: "utf8", maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+const nulSeparated = (text: string) => text.split("\0").filter(Boolean);
+
+/** Hash of a file, or of a symlink's target; undefined when there is no such file. */
+async function hashFile(file: string): Promise<string | undefined> {
+  const stat = await lstat(file).catch(() => undefined);
+  if (!stat) return undefined;
+  if (stat.isSymbolicLink()) return `link:${await readlink(file)}`;
+  if (!stat.isFile()) return undefined;
+  return createHash("sha256").update(await readFile(file)).digest("hex");
+}
+
+/** Files of a plain-copy workspace, relative to `dir`. */
+async function walk(dir: string, prefix = ""): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(join(dir, prefix), { withFileTypes: true })) {
+    const rel = prefix ? join(prefix, entry.name) : entry.name;
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) files.push(...(await walk(dir, rel)));
+    } else files.push(rel);
+  }
+  return files;
+}
+
+async function snapshot(ws: Pick<IsolatedWorkspace, "kind" | "path">): Promise<Map<string, string>> {
+  // In a worktree, git-ignored files (build output, caches) are not changes.
+  const files =
+    ws.kind === "worktree"
+      ? nulSeparated(await git(ws.path, ["ls-files", "-z", "--cached", "--others", "--exclude-standard"]))
+      : await walk(ws.path);
+  const hashes = new Map<string, string>();
+  for (const file of files) {
+    const hash = await hashFile(join(ws.path, file));
+    if (hash) hashes.set(file, hash);
+  }
+  return hashes;
+}
+
+async function copyFileInto(fromDir: string, toDir: string, rel: string): Promise<void> {
+  const to = join(toDir, rel);
+  await mkdir(dirname(to), { recursive: true });
+  await rm(to, { force: true });
+  await cp(join(fromDir, rel), to, { force: true, verbatimSymlinks: true });
+}
+
+/** Create a worktree of the repository containing `source`, or undefined when there is none. */
+async function createWorktree(source: string, root: string): Promise<Omit<IsolatedWorkspace, "baseline"> | undefined> {
+  let repo: string;
+  let prefix: string;
+  try {
+    repo = (await git(source, ["rev-parse", "--show-toplevel"])).trim();
+    prefix = (await git(source, ["rev-parse", "--show-prefix"])).trim();
+    // Fails in a repository without commits.
+    await git(repo, ["worktree", "add", "--detach", "--quiet", join(root, "tree"), "HEAD"]);
+  } catch {
+    return undefined;
+  }
+  const tree = join(root, "tree");
+  // Bring over the working tree's state: staged and unstaged changes,
+  // deletions and untracked files.
+  const changed = [
+    ...nulSeparated(await git(repo, ["diff", "HEAD", "--name-only", "--no-renames", "-z"])),
+    ...nulSeparated(await git(repo, ["ls-files", "-z", "--others", "--exclude-standard"])),
+  ];
+  for (const rel of changed) {
+    if (await hashFile(join(repo, rel))) await copyFileInto(repo, tree, rel);
+    else await rm(join(tree, rel), { force: true });
+  }
+  return { kind: "worktree", source, path: join(tree, prefix), root, repo };
+}
+
+/** Create an isolated copy of `source` for the agent to work in. */
+export async function createIsolatedWorkspace(source: string): Promise<IsolatedWorkspace> {
+  const root = await mkdtemp(join(tmpdir(), "pi-cursor-isolated-"));
+  try {
+    let ws = await createWorktree(source, root);
+    if (!ws) {
+      const path = join(root, "tree");
+      await cp(source, path, {
+        recursive: true,
+        verbatimSymlinks: true,
+        filter: (file) => !SKIPPED_DIRS.has(basename(file)),
+      });
+      ws = { kind: "copy", source, path, root };
+    }
+    return { ...ws, baseline: await snapshot(ws) };
+  } catch (error) {
+    await rm(root, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/** What the agent changed since the workspace was created or last applied, sorted by path. */
+export async function listChanges(ws: IsolatedWorkspace): Promise<WorkspaceChange[]> {
+  const current = await snapshot(ws);
+  const changes: WorkspaceChange[] = [];
+  for (const [path, hash] of current) {
+    const before = ws.baseline.get(path);
+    if (before === undefined) changes.push({ path, status: "added" });
+    else if (before !== hash) changes.push({ path, status: "modified" });
+  }
+  for (const path of ws.baseline.keys()) {
+    if (!current.has(path)) changes.push({ path, status: "deleted" });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function readText(file: string): Promise<string | undefined> {
+  const data = await readFile(file).catch(() => undefined);
+  if (!data) return "";
+  return data.includes(0) ? undefined : data.toString("utf8");
+}
+
+/** Diff of one change against the project's current version of the file. */
+export async function diffChange(ws: IsolatedWorkspace, change: WorkspaceChange): Promise<string> {
+  const before = change.status === "added" ? "" : await readText(join(ws.source, change.path));
+  const after = change.status === "deleted" ? "" : await readText(join(ws.path, change.path));
+  if (before === undefined || after === undefined) return `Binary file ${change.path} ${change.status}`;
+  return compactDiff(change.path, before, after);
+}
+
+const STATUS_LETTER: Record<ChangeStatus, string> = { added: "A", modified: "M", deleted: "D" };
+
+/** File list followed by the diffs, cut off after MAX_DIFF_LINES lines. */
+export async function describeChanges(ws: IsolatedWorkspace, changes: WorkspaceChange[]): Promise<string> {
+  const lines = changes.map((c) => `${STATUS_LETTER[c.status]} ${c.path}`);
+  lines.push("");
+  for (const change of changes) lines.push(...(await diffChange(ws, change)).split("\n"));
+  if (lines.length <= MAX_DIFF_LINES) return lines.join("\n");
+  return [...lines.slice(0, MAX_DIFF_LINES), `… ${lines.length - MAX_DIFF_LINES} more lines`].join("\n");
+}
+
+/**
+ * Copy `changes` back into the project. Applied files become part of the
+ * baseline, so they are not reported again.
+ */
+export async function applyChanges(ws: IsolatedWorkspace, changes: WorkspaceChange[]): Promise<ApplyResult> {
+  const result: ApplyResult = { applied: [], conflicts: [] };
+  for (const change of changes) {
+    const target = join(ws.source, change.path);
+    if ((await hashFile(target)) !== ws.baseline.get(change.path)) {
+      result.conflicts.push(change.path);
+      continue;
+    }
+    if (change.status === "deleted") {
+      await rm(target, { force: true });
+      ws.baseline.delete(change.path);
+    } else {
+      await copyFileInto(ws.path, ws.source, change.path);
+      const hash = await hashFile(target);
+      if (hash) ws.baseline.set(change.path, hash);
+    }
+    result.applied.push(change.path);
+  }
+  return result;
+}
+
+/** Delete the workspace and unregister the worktree. */
+export async function removeIsolatedWorkspace(ws: IsolatedWorkspace): Promise<void> {
+  if (ws.repo) await git(ws.repo, ["worktree", "remove", "--force", join(ws.root, "tree")]).catch(() => {});
+  await rm(ws.root, { recursive: true, force: true });
+  if (ws.repo) await git(ws.repo, ["worktree", "prune"]).catch(() => {});
+}
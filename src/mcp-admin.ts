@@ -0,0 +1,152 @@
+/**
+ * /cursor-mcp — manage the Cursor agent's MCP servers from Pi.
+ *
+ *   /cursor-mcp [list]          servers from `agent mcp list` and mcp.json,
+ *                               with their state and whether they are allowed
+ *   /cursor-mcp enable <name>   `agent mcp enable` (enables and approves)
+ *   /cursor-mcp approve <name>  same as enable
+ *   /cursor-mcp disable <name>  `agent mcp disable`
+ *   /cursor-mcp tools <name>    `agent mcp list-tools`
+ *   /cursor-mcp allow <name>    add `Mcp(<name>:*)` to permissions.allow
+ *   /cursor-mcp revoke <name>   remove that rule again
+ *
+ * Server state is owned by the CLI, so those subcommands run `agent mcp`.
+ * Allow rules are merged into the user's `cli-config.json` (see
+ * updateAllowRules in src/cursor-config.ts); servers are never added to or
+ * removed from `mcp.json` here.
+ */
+
+import { spawn } from "node:child_process";
+import { join } from "node:path";
+import { stripVTControlCharacters } from "node:util";
+import { asObject, CLI_CONFIG_FILE, cursorConfigDir, MCP_CONFIG_FILE, readJsonObject, updateAllowRules } from "./cursor-config.js";
+
+export const MCP_SUBCOMMANDS: Record<string, string> = {
+  list: "List MCP servers, their state and allow rules",
+  enable: "Enable and approve a server (agent mcp enable)",
+  approve: "Approve a server (same as enable)",
+  disable: "Disable a server (agent mcp disable)",
+  tools: "List a server's tools (agent mcp list-tools)",
+  allow: "Allow all of a server's tools (adds Mcp(<server>:*))",
+  revoke: "Remove a server's Mcp(<server>:*) allow rule",
+};
+
+export interface McpServerInfo {
+  name: string;
+  /** State reported by `agent mcp list`, e.g. "ready" or "not loaded (needs approval)". */
+  state?: string;
+  /** Whether `Mcp(<name>:*)` is in permissions.allow. */
+  allowed: boolean;
+}
+
+/** Timeout (ms) for `agent mcp …`. */
+const MCP_TIMEOUT_MS = 30_000;
+
+/** Server names as they may appear in a permission rule. */
+const SERVER_NAME = /^[\w.@-]+$/;
+
+export function mcpAllowRule(server: string): string {
+  return `Mcp(${server}:*)`;
+}
+
+export function isServerName(name: string): boolean {
+  return SERVER_NAME.test(name);
+}
+
+/**
+ * Run `agent mcp <args>` and return its combined output without colours.
+ * Rejects, killing the CLI, when it takes longer than `timeoutMs`.
+ */
+export function runAgentMcp(
+  agentPath: string,
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  timeoutMs = MCP_TIMEOUT_MS,
+): Promise<{ code: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    let out = "";
+    let timedOut = false;
+    const child = spawn(agentPath, ["mcp", ...args], { stdio: ["ignore", "pipe", "pipe"], env });
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGTERM");
+    }, timeoutMs);
+    child.stdout?.on("data", (c: Buffer) => {
+      out += c.toString();
+    });
+    child.stderr?.on("data", (c: Buffer) => {
+      out += c.toString();
+    });
+    child.on("error", (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timeout);
+      if (timedOut) reject(new Error(`\`agent mcp ${args.join(" ")}\` did not answer within ${timeoutMs / 1000}s`));
+      else resolve({ code, output: stripVTControlCharacters(out).trim() });
+    });
+  });
+}
+
+/** Parse `agent mcp list` lines of the form "name: state". */
+export function parseMcpList(output: string): Array<{ name: string; state: string }> {
+  const servers: Array<{ name: string; state: string }> = [];
+  for (const line of stripVTControlCharacters(output).split("\n")) {
+    const match = /^\s*(?:[-*•]\s*)?([\w.@-]+)\s*:\s*(.+?)\s*$/.exec(line);
+    if (match) servers.push({ name: match[1], state: match[2] });
+  }
+  return servers;
+}
+
+/** Servers from `agent mcp list`, the user's and the project's mcp.json. */
+export async function listMcpServers(
+  agentPath: string,
+  cwd: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<McpServerInfo[]> {
+  const servers = new Map<string, McpServerInfo>();
+  const entry = (name: string) => {
+    const info = servers.get(name) ?? { name, allowed: false };
+    servers.set(name, info);
+    return info;
+  };
+
+  for (const file of [join(cursorConfigDir(env), MCP_CONFIG_FILE), join(cwd, ".cursor", MCP_CONFIG_FILE)]) {
+    const config = await readJsonObject(file).catch((): Record<string, unknown> => ({}));
+    for (const name of Object.keys(asObject(config.mcpServers))) entry(name);
+  }
+
+  const listed = await runAgentMcp(agentPath, ["list"], env);
+  if (listed.code !== 0) throw new Error(listed.output || `agent mcp list exited with code ${listed.code}`);
+  for (const { name, state } of parseMcpList(listed.output)) entry(name).state = state;
+
+  const cliConfig = await readJsonObject(join(cursorConfigDir(env), CLI_CONFIG_FILE)).catch((): Record<string, unknown> => ({}));
+  const allow = asObject(cliConfig.permissions).allow;
+  const rules = new Set(Array.isArray(allow) ? allow : []);
+  for (const info of servers.values()) info.allowed = rules.has(mcpAllowRule(info.name));
+  return [...servers.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function formatMcpServers(servers: McpServerInfo[]): string {
+  if (servers.length === 0) return "No MCP servers configured. Add one to ~/.cursor/mcp.json (see the README).";
+  const width = Math.max(...servers.map((s) => s.name.length));
+  const lines = servers.map((s) => {
+    const state = s.state ?? "not listed by `agent mcp list`";
+    const allowed = s.allowed ? "tools allowed" : "tools not allowed";
+    return `  ${s.name.padEnd(width)}  ${state} · ${allowed}`;
+  });
+  return [`Cursor MCP servers (${servers.length}):`, ...lines].join("\n");
+}
+
+/** Add or remove the allow rule for `server`; returns the message to show. */
+export async function setServerAllowed(
+  server: string,
+  allowed: boolean,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string> {
+  const rule = mcpAllowRule(server);
+  const changed = allowed ? await updateAllowRules([rule], [], env) : await updateAllowRules([], [rule], env);
+  if (!changed) return allowed ? `${rule} is already allowed.` : `${rule} was not in the allow list.`;
+  return allowed ? `Allowed ${rule} in cli-config.json.` : `Removed ${rule} from cli-config.json.`;
+}
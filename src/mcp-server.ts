@@ -0,0 +1,152 @@
+/**
+ * Embedded MCP server exposing Pi's tools to the Cursor agent.
+ *
+ * For the duration of a turn the provider listens on a private local socket.
+ * The agent is configured with a stdio MCP server (`pi-tools`) whose command is
+ * a tiny relay (mcp-stdio-bridge.mjs) that pipes the agent's stdio to that
+ * socket, so the MCP JSON-RPC protocol itself is spoken here, inside Pi.
+ *
+ * `tools/list` answers with the tools from the Pi context and their JSON
+ * schemas; `tools/call` is handed to `onToolCall`, which routes the call
+ * through Pi's own tool execution and resolves with the result.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type Server, type Socket } from "node:net";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import type { Tool } from "@mariozechner/pi-ai";
+import type { McpServerConfig } from "./cursor-config.js";
+
+/** Name of the MCP server as seen by the Cursor agent. */
+export const PI_TOOLS_SERVER = "pi-tools";
+
+/** MCP protocol version answered when the client does not name one. */
+const PROTOCOL_VERSION = "2025-06-18";
+
+/** Content item of an MCP `tools/call` result. */
+export type McpContent = { type: "text"; text: string } | { type: "image"; data: string; mimeType: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface PiToolsServer {
+  /** Entry to register under PI_TOOLS_SERVER in the agent's `mcp.json`. */
+  config: McpServerConfig;
+  close(): Promise<void>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** Path of the stdio ↔ socket relay script shipped next to this module. */
+const BRIDGE_SCRIPT = join(dirname(fileURLToPath(import.meta.url)), "mcp-stdio-bridge.mjs");
+
+/** Node binary for the relay; Pi itself may run from a single-file build. */
+function nodeCommand(): string {
+  return /^node(\.exe)?$/i.test(process.execPath.split(/[\\/]/).pop() ?? "") ? process.execPath : "node";
+}
+
+/**
+ * Start the MCP server for `tools`. Each `tools/call` request is passed to
+ * `onToolCall`; rejections are reported to the agent as tool errors.
+ */
+export async function startPiToolsServer(
+  tools: Tool[],
+  onToolCall: (name: string, args: Record<string, unknown>) => Promise<McpToolResult>,
+): Promise<PiToolsServer> {
+  let socketDir: string | undefined;
+  let socketPath: string;
+  if (process.platform === "win32") {
+    socketPath = `\\\\.\\pipe\\pi-cursor-mcp-${process.pid}-${Date.now()}`;
+  } else {
+    socketDir = await mkdtemp(join(tmpdir(), "pi-cursor-mcp-"));
+    socketPath = join(socketDir, "mcp.sock");
+  }
+
+  const connections = new Set<Socket>();
+
+  const handle = async (req: JsonRpcRequest): Promise<unknown> => {
+    switch (req.method) {
+      case "initialize":
+        return {
+          protocolVersion: typeof req.params?.protocolVersion === "string" ? req.params.protocolVersion : PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: PI_TOOLS_SERVER, version: "1.0.0" },
+        };
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: tools.map((t) => ({ name: t.name, description: t.description, inputSchema: t.parameters })),
+        };
+      case "tools/call": {
+        const name = String(req.params?.name ?? "");
+        if (!tools.some((t) => t.name === name)) {
+          return { content: [{ type: "text", text: `Unknown tool: ${name}` }], isError: true };
+        }
+        const args = (req.params?.arguments ?? {}) as Record<string, unknown>;
+        try {
+          return await onToolCall(name, args);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          return { content: [{ type: "text", text: msg }], isError: true };
+        }
+      }
+      default:
+        throw Object.assign(new Error(`Method not found: ${req.method}`), { code: -32601 });
+    }
+  };
+
+  const server: Server = createServer((socket) => {
+    connections.add(socket);
+    socket.on("close", () => connections.delete(socket));
+    socket.on("error", () => {});
+    const send = (message: unknown) => {
+      if (!socket.destroyed) socket.write(`${JSON.stringify(message)}\n`);
+    };
+
+    const rl = createInterface({ input: socket, crlfDelay: Infinity });
+    rl.on("line", (line) => {
+      let req: JsonRpcRequest;
+      try {
+        req = JSON.parse(line) as JsonRpcRequest;
+      } catch {
+        send({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+        return;
+      }
+      // Notifications (no id) need no answer.
+      if (req.id === undefined || req.id === null) return;
+      handle(req).then(
+        (result) => send({ jsonrpc: "2.0", id: req.id, result }),
+        (err: Error & { code?: number }) =>
+          send({ jsonrpc: "2.0", id: req.id, error: { code: err.code ?? -32603, message: err.message } }),
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    config: { command: nodeCommand(), args: [BRIDGE_SCRIPT, socketPath] },
+    close: async () => {
+      for (const socket of connections) socket.destroy();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (socketDir) await rm(socketDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+/**
+ * Stdio ↔ socket relay for the `pi-tools` MCP server.
+ *
+ * The Cursor agent launches this script as a stdio MCP server. It connects to
+ * the socket Pi listens on for the current turn (argv[2]) and pipes bytes in
+ * both directions; the MCP protocol itself is handled in mcp-server.ts.
+ */
+
+import { connect } from "node:net";
+
+const socketPath = process.argv[2];
+if (!socketPath) {
+  process.stderr.write("pi-tools MCP bridge: missing socket path\n");
+  process.exit(2);
+}
+
+const socket = connect(socketPath);
+process.stdin.pipe(socket);
+socket.pipe(process.stdout);
+
+socket.on("error", (err) => {
+  process.stderr.write(`pi-tools MCP bridge: ${err.message}\n`);
+  process.exit(1);
+});
+socket.on("close", () => process.exit(0));
+process.stdin.on("end", () => socket.end());
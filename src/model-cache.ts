@@ -0,0 +1,122 @@
+/**
+ * On-disk cache of discovered Cursor models.
+ *
+ * `agent models` takes seconds (up to the 15 s discovery timeout), so the
+ * discovered list is stored per Cursor account under Pi's agent directory:
+ *
+ *   ~/.pi/agent/cursor-provider/models-<account>.json
+ *
+ * At startup the provider registers the cached list immediately and refreshes
+ * it in the background once it is older than MODEL_CACHE_TTL_MS.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import { cursorConfigDir } from "./cursor-config.js";
+
+export interface CursorModelDef {
+  id: string;
+  name: string;
+  reasoning: boolean;
+  contextWindow: number;
+  maxTokens: number;
+  /** Accepts image input; inferred from the id when unset. */
+  vision?: boolean;
+}
+
+/** Where the registered model list came from. */
+export type ModelSource = "live" | "cached" | "static";
+
+export interface ModelCacheEntry {
+  fetchedAt: number;
+  models: CursorModelDef[];
+}
+
+/** Cached lists older than this are refreshed in the background. */
+export const MODEL_CACHE_TTL_MS = 24 * 60 * 60_000;
+
+const CACHE_VERSION = 1;
+
+function cacheDir(): string {
+  return join(getAgentDir(), "cursor-provider");
+}
+
+function shortHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Identify the Cursor account the models belong to, without spawning the CLI:
+ * the API key if one is set, otherwise the signed-in user recorded in the
+ * CLI's `cli-config.json`. Only a hash of either ends up in the file name.
+ */
+export async function modelCacheAccount(env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  const apiKey = env["CURSOR_API_KEY"];
+  if (apiKey) return `key-${shortHash(apiKey)}`;
+  try {
+    const config = JSON.parse(await readFile(join(cursorConfigDir(env), "cli-config.json"), "utf8")) as {
+      authInfo?: { email?: unknown; userId?: unknown };
+    };
+    const user = config.authInfo?.email ?? config.authInfo?.userId;
+    if (typeof user === "string" || typeof user === "number") return `user-${shortHash(String(user))}`;
+  } catch {
+    // Not signed in or no config yet.
+  }
+  return "default";
+}
+
+function cacheFile(account: string): string {
+  return join(cacheDir(), `models-${account}.json`);
+}
+
+function isModelDef(value: unknown): value is CursorModelDef {
+  const m = value as Partial<CursorModelDef> | null;
+  return (
+    !!m &&
+    typeof m.id === "string" &&
+    typeof m.name === "string" &&
+    typeof m.reasoning === "boolean" &&
+    typeof m.contextWindow === "number" &&
+    typeof m.maxTokens === "number"
+  );
+}
+
+/** Read the cached list for `account`. Missing, stale-format or corrupt files yield undefined. */
+export async function readModelCache(account: string): Promise<ModelCacheEntry | undefined> {
+  try {
+    const data = JSON.parse(await readFile(cacheFile(account), "utf8")) as {
+      version?: unknown;
+      fetchedAt?: unknown;
+      models?: unknown;
+    };
+    if (data.version !== CACHE_VERSION || typeof data.fetchedAt !== "number" || !Array.isArray(data.models)) {
+      return undefined;
+    }
+    const models = data.models.filter(isModelDef);
+    return models.length > 0 ? { fetchedAt: data.fetchedAt, models } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Store a freshly discovered list. The file is replaced atomically. */
+export async function writeModelCache(account: string, models: CursorModelDef[]): Promise<ModelCacheEntry> {
+  const entry: ModelCacheEntry = { fetchedAt: Date.now(), models };
+  const file = cacheFile(account);
+  await mkdir(cacheDir(), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify({ version: CACHE_VERSION, ...entry }, null, 2), { mode: 0o600 });
+  await rename(tmp, file);
+  return entry;
+}
+
+export function isModelCacheStale(entry: ModelCacheEntry, now = Date.now()): boolean {
+  return now - entry.fetchedAt > MODEL_CACHE_TTL_MS;
+}
+
+/** True when two lists would register the same models. */
+export function sameModels(a: CursorModelDef[], b: CursorModelDef[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,184 @@
+/**
+ * User-editable model metadata and canonical-ID aliases.
+ *
+ * The built-in STATIC_MODELS and MODEL_MAP tables can be extended or corrected
+ * without a package release through an optional overrides file, read from
+ * (later files win):
+ *
+ *   ~/.pi/agent/cursor-models.{json,yaml,yml}    global
+ *   <project>/.pi/cursor-models.{json,yaml,yml}  per project
+ *
+ * Example (YAML):
+ *
+ *   models:
+ *     gpt-5.4:                 # CLI model id; added if unknown
+ *       name: GPT-5.4
+ *       contextWindow: 400000
+ *     sonnet-4.6:
+ *       maxTokens: 64000       # only the given fields are overridden
+ *     composer-1.5:
+ *       vision: true           # register with image input
+ *   aliases:
+ *     gpt-5-4:                 # canonical id, as used with /model cursor/<id>
+ *       default: gpt-5.4
+ *       high: gpt-5.4-high
+ *
+ * Invalid entries are skipped and reported; the rest of the file still applies.
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import { parse as parseYaml } from "yaml";
+
+export type ReasoningLevel = "minimal" | "low" | "medium" | "high" | "xhigh";
+
+export const REASONING_LEVELS: readonly ReasoningLevel[] = ["minimal", "low", "medium", "high", "xhigh"];
+
+export interface ModelVariants {
+  default: string;
+  minimal?: string;
+  low?: string;
+  medium?: string;
+  high?: string;
+  xhigh?: string;
+}
+
+/** Fields of a model definition that can be overridden. */
+export interface ModelOverride {
+  name?: string;
+  reasoning?: boolean;
+  contextWindow?: number;
+  maxTokens?: number;
+  vision?: boolean;
+}
+
+export interface ModelOverrides {
+  /** Overrides keyed by CLI model id. */
+  models: Record<string, ModelOverride>;
+  /** Canonical id → variants; replaces the built-in entry of the same id. */
+  aliases: Record<string, ModelVariants>;
+  /** Files that were applied, in merge order. */
+  files: string[];
+  /** Problems found while reading the files, prefixed with the file path. */
+  errors: string[];
+}
+
+const FILE_BASENAME = "cursor-models";
+const EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/** Candidate override files, global first. */
+export function modelOverrideFiles(cwd: string): string[] {
+  const dirs = [getAgentDir(), join(cwd, ".pi")];
+  return dirs.flatMap((dir) => EXTENSIONS.map((ext) => join(dir, `${FILE_BASENAME}${ext}`)));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+const MODEL_FIELDS: Record<keyof ModelOverride, (value: unknown) => string | undefined> = {
+  name: (v) => (typeof v === "string" && v.trim() ? undefined : "must be a non-empty string"),
+  reasoning: (v) => (typeof v === "boolean" ? undefined : "must be true or false"),
+  contextWindow: (v) => (isPositiveInteger(v) ? undefined : "must be a positive integer"),
+  maxTokens: (v) => (isPositiveInteger(v) ? undefined : "must be a positive integer"),
+  vision: (v) => (typeof v === "boolean" ? undefined : "must be true or false"),
+};
+
+function validateModel(id: string, value: unknown, errors: string[]): ModelOverride | undefined {
+  if (!isObject(value)) {
+    errors.push(`models.${id}: must be an object`);
+    return undefined;
+  }
+  const problems: string[] = [];
+  for (const [key, field] of Object.entries(value)) {
+    const check = MODEL_FIELDS[key as keyof ModelOverride];
+    const problem = check ? check(field) : `unknown field (expected ${Object.keys(MODEL_FIELDS).join(", ")})`;
+    if (problem) problems.push(`models.${id}.${key}: ${problem}`);
+  }
+  if (problems.length > 0) {
+    errors.push(...problems);
+    return undefined;
+  }
+  return value as ModelOverride;
+}
+
+function validateAlias(id: string, value: unknown, errors: string[]): ModelVariants | undefined {
+  if (!isObject(value)) {
+    errors.push(`aliases.${id}: must be an object mapping "default" and reasoning levels to CLI model ids`);
+    return undefined;
+  }
+  const problems: string[] = [];
+  if (value.default === undefined) problems.push(`aliases.${id}.default: is required`);
+  for (const [key, field] of Object.entries(value)) {
+    if (key !== "default" && !REASONING_LEVELS.includes(key as ReasoningLevel)) {
+      problems.push(`aliases.${id}.${key}: unknown reasoning level (expected default, ${REASONING_LEVELS.join(", ")})`);
+    } else if (typeof field !== "string" || !field.trim()) {
+      problems.push(`aliases.${id}.${key}: must be a CLI model id`);
+    }
+  }
+  if (problems.length > 0) {
+    errors.push(...problems);
+    return undefined;
+  }
+  return value as unknown as ModelVariants;
+}
+
+/** Validate one parsed file and merge it into `into`. */
+function mergeOverridesFile(data: unknown, into: ModelOverrides, errors: string[]): void {
+  if (!isObject(data)) {
+    errors.push("top level must be an object with `models` and/or `aliases`");
+    return;
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== "models" && key !== "aliases") errors.push(`${key}: unknown section (expected models, aliases)`);
+  }
+  if (data.models !== undefined) {
+    if (!isObject(data.models)) errors.push("models: must be an object keyed by CLI model id");
+    else {
+      for (const [id, value] of Object.entries(data.models)) {
+        const model = validateModel(id, value, errors);
+        if (model) into.models[id] = { ...into.models[id], ...model };
+      }
+    }
+  }
+  if (data.aliases !== undefined) {
+    if (!isObject(data.aliases)) errors.push("aliases: must be an object keyed by canonical model id");
+    else {
+      for (const [id, value] of Object.entries(data.aliases)) {
+        const variants = validateAlias(id, value, errors);
+        if (variants) into.aliases[id] = variants;
+      }
+    }
+  }
+}
+
+/** Read and merge all override files that exist for `cwd`. Never throws. */
+export async function loadModelOverrides(cwd: string): Promise<ModelOverrides> {
+  const overrides: ModelOverrides = { models: {}, aliases: {}, files: [], errors: [] };
+  for (const file of modelOverrideFiles(cwd)) {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch {
+      continue;
+    }
+    let data: unknown;
+    try {
+      data = file.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      overrides.errors.push(`${file}: could not parse: ${msg}`);
+      continue;
+    }
+    const errors: string[] = [];
+    mergeOverridesFile(data ?? {}, overrides, errors);
+    overrides.errors.push(...errors.map((e) => `${file}: ${e}`));
+    overrides.files.push(file);
+  }
+  return overrides;
+}
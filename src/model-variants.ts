@@ -0,0 +1,67 @@
+/**
+ * Reasoning variants derived from Cursor model ids.
+ *
+ * Cursor publishes each reasoning setting of a model as its own id, named by
+ * suffix: `-thinking`, or an effort of `-low`, `-medium`, `-high` or `-xhigh`,
+ * optionally followed by `-fast`. deriveModelFamilies groups discovered ids by
+ * base id — `-fast` ids form a family of their own — and builds the same
+ * per-level map MODEL_MAP spells out by hand:
+ *
+ *   -thinking  every level
+ *   -low       minimal, low
+ *   -medium    medium
+ *   -high      high, and xhigh when there is no -xhigh
+ *   -xhigh     xhigh
+ *
+ * So `opus-5` and `opus-5-thinking` become one model, `opus-5`, and
+ * `gpt-6-codex-high-fast` is the high variant of `gpt-6-codex-fast`. Ids
+ * whose base id was not discovered stay separate models. Explicit MODEL_MAP
+ * entries and user aliases take precedence (see index.ts).
+ */
+
+import { REASONING_LEVELS, type ModelVariants, type ReasoningLevel } from "./model-overrides.js";
+
+type Suffix = "thinking" | "low" | "medium" | "high" | "xhigh";
+
+const VARIANT_ID = /^(.+?)-(thinking|low|medium|high|xhigh)(-fast)?$/;
+
+/** Suffixes serving each level, in order of preference. */
+const LEVEL_SUFFIXES: Record<ReasoningLevel, Suffix[]> = {
+  minimal: ["low", "thinking"],
+  low: ["low", "thinking"],
+  medium: ["medium", "thinking"],
+  high: ["high", "thinking"],
+  xhigh: ["xhigh", "high", "thinking"],
+};
+
+/** Split a CLI id into its base id (keeping `-fast`) and reasoning suffix. */
+export function parseVariantId(id: string): { base: string; suffix?: Suffix } {
+  const match = VARIANT_ID.exec(id);
+  if (!match) return { base: id };
+  return { base: `${match[1]}${match[3] ?? ""}`, suffix: match[2] as Suffix };
+}
+
+/**
+ * Group model ids into families keyed by their base id. Only bases with at
+ * least one reasoning variant are returned.
+ */
+export function deriveModelFamilies(ids: string[]): Record<string, ModelVariants> {
+  const known = new Set(ids);
+  const variantsByBase = new Map<string, Partial<Record<Suffix, string>>>();
+  for (const id of ids) {
+    const { base, suffix } = parseVariantId(id);
+    if (!suffix || !known.has(base)) continue;
+    variantsByBase.set(base, { ...variantsByBase.get(base), [suffix]: id });
+  }
+
+  const families: Record<string, ModelVariants> = {};
+  for (const [base, variants] of variantsByBase) {
+    const family: ModelVariants = { default: base };
+    for (const level of REASONING_LEVELS) {
+      const suffix = LEVEL_SUFFIXES[level].find((s) => variants[s]);
+      if (suffix) family[level] = variants[suffix];
+    }
+    families[base] = family;
+  }
+  return families;
+}
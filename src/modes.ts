@@ -0,0 +1,100 @@
+/**
+ * Agent modes — read-only `ask` and `plan` variants of every Cursor model.
+ *
+ * Each model is also registered as `<id>:ask` and `<id>:plan`, with the mode
+ * in its display name ("Claude 4.6 Sonnet (Cursor, plan)"):
+ *
+ *   agent  the default — the agent may edit files and run commands
+ *   ask    answers and explanations only
+ *   plan   investigates and replies with an implementation plan
+ *
+ * Where the CLI has a `--mode` option that lists the mode, the mode is passed
+ * through. Otherwise the turn runs under the read-only permission rules and
+ * the prompt starts with instructions for the mode. Both ways, ask and plan
+ * turns never get write or shell permissions.
+ */
+
+import { spawn } from "node:child_process";
+
+export type AgentMode = "agent" | "ask" | "plan";
+
+export const AGENT_MODES: Record<AgentMode, string> = {
+  agent: "Edit files and run commands (default)",
+  ask: "Answer questions without changing anything",
+  plan: "Investigate and reply with a plan, without changing anything",
+};
+
+/** Read-only modes registered as model variants. */
+export const VARIANT_MODES: AgentMode[] = ["ask", "plan"];
+
+/** Prompt preamble used when the CLI cannot switch modes itself. */
+const INSTRUCTIONS: Record<Exclude<AgentMode, "agent">, string> = {
+  ask:
+    "[Mode: ask] Answer the user's question. You may read files and search the workspace, " +
+    "but do not edit, create or delete files and do not run commands that change anything.",
+  plan:
+    "[Mode: plan] Do not implement anything yet. Read and search the workspace as needed, " +
+    "then reply with a concrete step-by-step plan: the files to change, what to change in each, " +
+    "and how to verify it. Do not edit, create or delete files and do not run commands that change anything.",
+};
+
+/** Timeout (ms) for `agent --help`. */
+const HELP_TIMEOUT_MS = 5_000;
+
+/** Split "sonnet-4.6:plan" into the model id and its mode. */
+export function parseModelMode(modelId: string): { modelId: string; mode: AgentMode } {
+  const match = /^(.+):(ask|plan)$/.exec(modelId);
+  return match ? { modelId: match[1], mode: match[2] as AgentMode } : { modelId, mode: "agent" };
+}
+
+export function withMode(modelId: string, mode: AgentMode): string {
+  return mode === "agent" ? modelId : `${modelId}:${mode}`;
+}
+
+export function modeInstructions(mode: AgentMode): string | undefined {
+  return mode === "agent" ? undefined : INSTRUCTIONS[mode];
+}
+
+/**
+ * Modes `agent --help` lists for a `--mode` option: the option's line and
+ * the two after it are searched for the mode names.
+ */
+export function parseHelpModes(help: string): Set<AgentMode> {
+  const lines = help.split("\n");
+  const at = lines.findIndex((line) => /--mode\b/.test(line));
+  const text = at < 0 ? "" : lines.slice(at, at + 3).join("\n");
+  return new Set(VARIANT_MODES.filter((mode) => new RegExp(`\\b${mode}\\b`).test(text)));
+}
+
+const helpCache = new Map<string, Promise<Set<AgentMode>>>();
+
+/**
+ * Modes the CLI accepts for `--mode` (see parseHelpModes). Cached per binary;
+ * `env` is the environment of the profile the binary belongs to.
+ */
+export function detectCliModes(agentPath: string, env: NodeJS.ProcessEnv = process.env): Promise<Set<AgentMode>> {
+  let cached = helpCache.get(agentPath);
+  if (!cached) {
+    cached = new Promise((resolve) => {
+      let out = "";
+      const child = spawn(agentPath, ["--help"], { stdio: ["ignore", "pipe", "pipe"], env });
+      const timeout = setTimeout(() => {
+        child.kill("SIGTERM");
+        resolve(new Set());
+      }, HELP_TIMEOUT_MS);
+      child.stdout?.on("data", (c: Buffer) => {
+        out += c.toString();
+      });
+      child.on("error", () => {
+        clearTimeout(timeout);
+        resolve(new Set());
+      });
+      child.on("close", () => {
+        clearTimeout(timeout);
+        resolve(parseHelpModes(out));
+      });
+    });
+    helpCache.set(agentPath, cached);
+  }
+  return cached;
+}
@@ -0,0 +1,130 @@
+/**
+ * Permission profiles for Cursor turns.
+ *
+ * Each profile maps to Cursor CLI permission rules that are written into the
+ * turn's config overlay (see cursor-config.ts):
+ *
+ *   read-only   Reads and searches only; writes, deletes and shell commands are denied.
+ *   edits-only  Reads and file edits; shell commands are denied.
+ *   ask         Shell commands, writes and web fetches are denied by the CLI
+ *               (and the agent runs without --trust). Pi asks about each
+ *               rejected call; approved calls are allowed one by one by
+ *               approvalRule and re-issued by resuming the chat, a denial
+ *               ends the turn.
+ *   full        No extra rules — the agent runs whatever it decides (default).
+ *
+ * Pi's extension tools are not offered to a read-only turn at all: Pi cannot
+ * tell which of them only read.
+ */
+
+import { pathOf } from "./tool-format.js";
+
+export type PermissionProfile = "read-only" | "edits-only" | "ask" | "full";
+
+export const PERMISSION_PROFILES: Record<PermissionProfile, string> = {
+  "read-only": "Reads and searches only; no edits, deletes or shell commands",
+  "edits-only": "Reads and file edits; no shell commands",
+  ask: "Confirm shell commands, edits, deletes and web fetches in Pi before they run",
+  full: "Trust the agent with everything (no confirmation)",
+};
+
+export interface PermissionRules {
+  allow: string[];
+  deny: string[];
+}
+
+const RULES: Record<PermissionProfile, PermissionRules> = {
+  "read-only": { allow: ["Read(**)"], deny: ["Write(**)", "Shell(*)"] },
+  "edits-only": { allow: ["Read(**)", "Write(**)"], deny: ["Shell(*)"] },
+  ask: { allow: ["Read(**)"], deny: ["Shell(*)", "Write(**)", "WebFetch(*)"] },
+  full: { allow: [], deny: [] },
+};
+
+/** The `ask` deny rule covering an approval rule's kind of call, e.g. `Shell(*)` for `Shell(npm)`. */
+const ASK_DENY: Record<string, string> = { Shell: "Shell(*)", Write: "Write(**)", WebFetch: "WebFetch(*)" };
+
+/** Tools that never need confirmation in `ask` mode (Pi display names). */
+const SAFE_TOOLS = new Set(["Read", "Grep", "Glob", "Ls", "Find", "Todo", "UpdateTodos", "WebSearch"]);
+
+export function isPermissionProfile(value: string): value is PermissionProfile {
+  return Object.hasOwn(PERMISSION_PROFILES, value);
+}
+
+/**
+ * Cursor permission rules for `profile`. In `ask` mode, `approved` rules (see
+ * approvalRule) are allowed and lift the blanket deny rule of their kind,
+ * which would otherwise take precedence; calls of that kind that no rule
+ * allows are still rejected, as the agent runs without --trust.
+ */
+export function profileRules(profile: PermissionProfile, approved: string[] = []): PermissionRules {
+  const rules = RULES[profile];
+  if (profile !== "ask" || approved.length === 0) return { allow: [...rules.allow], deny: [...rules.deny] };
+  const lifted = new Set(approved.map((rule) => ASK_DENY[rule.slice(0, rule.indexOf("("))]));
+  return { allow: [...new Set([...rules.allow, ...approved])], deny: rules.deny.filter((rule) => !lifted.has(rule)) };
+}
+
+/** Whether the agent may run without asking (`--trust`); not in `ask` mode. */
+export function trustsAgent(profile: PermissionProfile): boolean {
+  return profile !== "ask";
+}
+
+/**
+ * The rule that allows exactly the kind of call the user approved: the
+ * command's program for Shell, the file for edits, writes and deletes, the
+ * host for web fetches. Undefined when no rule can single the call out.
+ */
+export function approvalRule(toolName: string, args: Record<string, unknown>): string | undefined {
+  switch (toolName) {
+    case "Shell": {
+      const program = typeof args.command === "string" ? args.command.trim().split(/\s+/)[0] : undefined;
+      return program ? `Shell(${program})` : undefined;
+    }
+    case "Edit":
+    case "Write":
+    case "Delete": {
+      const path = pathOf(args);
+      return path ? `Write(${path})` : undefined;
+    }
+    case "WebFetch": {
+      const url = typeof args.url === "string" ? args.url : "";
+      if (!URL.canParse(url)) return undefined;
+      return `WebFetch(${new URL(url).hostname})`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Prompt that resumes the chat once the user approved calls the CLI had rejected. */
+export function approvedCallsPrompt(calls: string[]): string {
+  return [
+    "The user approved these tool calls, which were rejected earlier in this turn. They are allowed now: run them again and carry on with the task.",
+    ...calls.map((call) => `- ${call}`),
+  ].join("\n");
+}
+
+/** Whether a tool call must be confirmed in `ask` mode. Unknown tools are risky. */
+export function needsApproval(profile: PermissionProfile, toolName: string): boolean {
+  return profile === "ask" && !SAFE_TOOLS.has(toolName);
+}
+
+/** Whether Pi's extension tools may be exposed to the agent (see src/mcp-server.ts). */
+export function allowsPiTools(profile: PermissionProfile): boolean {
+  return profile !== "read-only";
+}
+
+let currentProfile: PermissionProfile | undefined;
+
+/** Active profile: the one set via /cursor-permissions, else `configured` (see config.ts). */
+export function getPermissionProfile(configured: PermissionProfile): PermissionProfile {
+  return currentProfile ?? configured;
+}
+
+/** Profile chosen with /cursor-permissions this session, if any. */
+export function permissionProfileOverride(): PermissionProfile | undefined {
+  return currentProfile;
+}
+
+export function setPermissionProfile(profile: PermissionProfile): void {
+  currentProfile = profile;
+}
@@ -0,0 +1,69 @@
+/**
+ * Agent process lifetime.
+ *
+ * The Cursor agent starts shell commands, language servers and other helpers
+ * of its own. Signalling only the `agent` process leaves those running, and
+ * since they inherit its stdout, the provider would keep waiting for the pipe
+ * to close. On POSIX every agent is therefore spawned as the leader of a new
+ * process group, and signals go to the whole group.
+ *
+ * Stopping is two-step: SIGTERM first, then SIGKILL if the group is still
+ * around after a grace period. Groups still running when Pi exits are killed
+ * from an `exit` handler.
+ */
+
+import { type ChildProcess, type SpawnOptions, spawn } from "node:child_process";
+
+/** Default delay (ms) between SIGTERM and SIGKILL. */
+export const DEFAULT_KILL_GRACE_MS = 5_000;
+
+const useGroups = process.platform !== "win32";
+
+/** Processes spawned through spawnAgentProcess that have not exited yet. */
+const live = new Set<ChildProcess>();
+
+let exitHandlerInstalled = false;
+
+function installExitHandler(): void {
+  if (exitHandlerInstalled) return;
+  exitHandlerInstalled = true;
+  // `exit` handlers must be synchronous; there is no time for a grace period.
+  process.once("exit", killAllAgentProcesses);
+}
+
+/** Spawn `command` in its own process group and track it until it exits. */
+export function spawnAgentProcess(command: string, args: string[], options: SpawnOptions): ChildProcess {
+  const child = spawn(command, args, { ...options, detached: useGroups });
+  installExitHandler();
+  live.add(child);
+  child.once("exit", () => live.delete(child));
+  child.once("error", () => live.delete(child));
+  return child;
+}
+
+/** Send `signal` to the child's process group, or to the child alone where groups are not used. */
+export function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    if (useGroups) process.kill(-child.pid, signal);
+    else child.kill(signal);
+  } catch {
+    // ESRCH: the group is already gone.
+  }
+}
+
+/**
+ * SIGTERM the process tree, then SIGKILL it after `graceMs`. The SIGKILL is
+ * sent even if the leader exited in time, for helpers that ignored SIGTERM.
+ */
+export function terminateProcessTree(child: ChildProcess, graceMs: number = DEFAULT_KILL_GRACE_MS): void {
+  signalProcessTree(child, "SIGTERM");
+  const timer = setTimeout(() => signalProcessTree(child, "SIGKILL"), graceMs);
+  timer.unref();
+}
+
+/** SIGKILL every tracked process tree. Used when Pi exits. */
+export function killAllAgentProcesses(): void {
+  for (const child of live) signalProcessTree(child, "SIGKILL");
+  live.clear();
+}
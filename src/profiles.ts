@@ -0,0 +1,92 @@
+/**
+ * Account profiles — several Cursor accounts side by side.
+ *
+ * Each entry of the `profiles` setting is registered as its own Pi provider,
+ * `cursor-<name>`, with its own model discovery and model cache:
+ *
+ *   "profiles": {
+ *     "work":     { "apiKeyEnv": "CURSOR_WORK_API_KEY" },
+ *     "personal": { "configDir": "~/.cursor-personal", "models": ["auto", "sonnet-4.6"] }
+ *   }
+ *
+ *   apiKeyEnv  env var holding the profile's API key (keys are never read
+ *              from files); passed to the agent as CURSOR_API_KEY
+ *   configDir  Cursor config directory with the profile's login, MCP servers
+ *              and permissions; passed as CURSOR_CONFIG_DIR
+ *   agentPath  CLI binary; defaults to the `agentPath` setting
+ *   models     model ids to register, canonical (claude-sonnet-4-6) or CLI
+ *              (sonnet-4.6); defaults to every discovered model
+ *
+ * A profile without `apiKeyEnv` never sees CURSOR_API_KEY, so its own login
+ * is used. The plain `cursor` provider uses the profile named by the
+ * `profile` setting — typically set in a project's .pi/cursor-provider.json —
+ * and the environment as is when there is none.
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ProviderConfig } from "./config.js";
+
+export interface CursorProfile {
+  apiKeyEnv?: string;
+  configDir?: string;
+  agentPath?: string;
+  models?: string[];
+}
+
+/** A profile with everything needed to run the CLI for it. */
+export interface ResolvedProfile {
+  /** Profile name; undefined for the environment's own account. */
+  name?: string;
+  /** Pi provider the profile is registered as. */
+  provider: string;
+  agentPath: string;
+  /** Environment for every `agent` process of the profile. */
+  env: NodeJS.ProcessEnv;
+  /** Model ids to register; all when undefined. */
+  models?: string[];
+}
+
+export const DEFAULT_PROVIDER = "cursor";
+
+/** Profile names, which become part of a provider name. */
+export const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export function profileProvider(name: string): string {
+  return `${DEFAULT_PROVIDER}-${name}`;
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+function resolveProfile(config: ProviderConfig, name: string, provider: string, errors: string[]): ResolvedProfile {
+  const profile = config.profiles[name] ?? {};
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  delete env["CURSOR_API_KEY"];
+  if (profile.apiKeyEnv) {
+    const key = process.env[profile.apiKeyEnv];
+    if (key) env["CURSOR_API_KEY"] = key;
+    else errors.push(`profile ${name}: ${profile.apiKeyEnv} is not set`);
+  }
+  if (profile.configDir) env["CURSOR_CONFIG_DIR"] = expandHome(profile.configDir);
+  return { name, provider, agentPath: profile.agentPath ?? config.agentPath, env, models: profile.models };
+}
+
+/**
+ * The profile behind the `cursor` provider, followed by one per entry of
+ * `profiles`. Problems (an unknown `profile`, a missing key) are appended to
+ * `errors`; the affected profile still resolves.
+ */
+export function resolveProfiles(config: ProviderConfig, errors: string[] = []): ResolvedProfile[] {
+  const named = Object.keys(config.profiles).map((name) =>
+    resolveProfile(config, name, profileProvider(name), errors),
+  );
+  let main: ResolvedProfile = { provider: DEFAULT_PROVIDER, agentPath: config.agentPath, env: process.env };
+  if (config.profile && config.profiles[config.profile]) {
+    main = resolveProfile(config, config.profile, DEFAULT_PROVIDER, []);
+  } else if (config.profile) {
+    errors.push(`profile "${config.profile}" is not defined in profiles (${Object.keys(config.profiles).join(", ") || "none"})`);
+  }
+  return [main, ...named];
+}
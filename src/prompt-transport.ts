@@ -0,0 +1,171 @@
+/**
+ * Prompt transport — how the serialised conversation reaches the CLI.
+ *
+ * Passing the prompt as a positional argument hits the OS argument-size limit
+ * (E2BIG) on long sessions and exposes the whole conversation in `ps` output.
+ * Instead the prompt is either streamed through the child's stdin, or written
+ * to a private (0600) temp file that the agent is asked to read. The file
+ * lives in a 0700 directory inside the workspace,
+ *
+ *   <workspace>/.pi/cursor-prompts/prompt-<random>/prompt.md
+ *
+ * so permission rules scoped to the workspace (e.g. `Read(**)`) cover it. The
+ * directory is git-ignored and removed once the turn is over.
+ */
+
+import { spawn } from "node:child_process";
+import { mkdir, mkdtemp, readdir, rm, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+const PROMPTS_DIR = join(".pi", "cursor-prompts");
+
+export type PromptTransportKind = "stdin" | "file";
+
+/** `auto` picks a transport from the prompt size and the detected CLI version. */
+export type PromptTransportPreference = PromptTransportKind | "auto";
+
+/** The CLI and workspace a prompt is prepared for. */
+export interface PromptTarget {
+  agentPath: string;
+  /** Environment of the profile the CLI runs with. */
+  env: NodeJS.ProcessEnv;
+  workspace: string;
+}
+
+export interface PreparedPrompt {
+  kind: PromptTransportKind;
+  /** Positional argument to append to the CLI arguments, if any. */
+  arg?: string;
+  /** Text to write to the child's stdin, if any. */
+  stdin?: string;
+  /** Remove anything created on disk for this prompt. Safe to call twice. */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * First CLI version known to read the `--print` prompt from stdin when no
+ * positional prompt is given (the version this provider is built against).
+ */
+const STDIN_MIN_VERSION = "2026.02.13";
+
+/**
+ * Largest prompt (bytes) sent through a temp file. The agent pulls the file in
+ * with its own Read tool, which truncates very large files.
+ */
+const FILE_PROMPT_MAX_BYTES = 2 * 1024 * 1024;
+
+/** Timeout (ms) for `agent --version`. */
+const VERSION_TIMEOUT_MS = 5_000;
+
+const versionCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Run `agent --version` and return the date-style version (e.g. "2026.02.13"),
+ * or undefined when it cannot be determined. Cached per binary path and the
+ * PATH it is run with, which decides the binary a bare name resolves to.
+ */
+export function detectCliVersion(
+  agentPath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string | undefined> {
+  const key = `${agentPath}\0${env["PATH"] ?? ""}`;
+  let cached = versionCache.get(key);
+  if (!cached) {
+    cached = new Promise((resolve) => {
+      let out = "";
+      const child = spawn(agentPath, ["--version"], {
+        stdio: ["ignore", "pipe", "pipe"],
+        env,
+      });
+      const timeout = setTimeout(() => {
+        child.kill("SIGTERM");
+        resolve(undefined);
+      }, VERSION_TIMEOUT_MS);
+      child.stdout?.on("data", (c: Buffer) => { out += c.toString(); });
+      child.on("error", () => {
+        clearTimeout(timeout);
+        resolve(undefined);
+      });
+      child.on("close", (code) => {
+        clearTimeout(timeout);
+        const match = /(\d{4})\.(\d{1,2})\.(\d{1,2})/.exec(out);
+        if (code !== 0 || !match) {
+          resolve(undefined);
+          return;
+        }
+        resolve(`${match[1]}.${match[2].padStart(2, "0")}.${match[3].padStart(2, "0")}`);
+      });
+    });
+    versionCache.set(key, cached);
+  }
+  return cached;
+}
+
+/** Whether a CLI of the given version reads the prompt from stdin. */
+function supportsStdin(version: string | undefined): boolean {
+  // Zero-padded date versions compare correctly as strings.
+  return version !== undefined && version >= STDIN_MIN_VERSION;
+}
+
+/** Remove a prompt directory, and the shared parent and `.pi` once they are empty. */
+async function removePromptDir(dir: string): Promise<void> {
+  await rm(dir, { recursive: true, force: true });
+  const parent = dirname(dir);
+  const entries = await readdir(parent).catch(() => undefined);
+  if (entries?.every((e) => e === ".gitignore")) {
+    await rm(parent, { recursive: true, force: true });
+    await rmdir(dirname(parent)).catch(() => {});
+  }
+}
+
+async function preparePromptFile(prompt: string, workspace: string): Promise<PreparedPrompt> {
+  let dir: string | undefined;
+  try {
+    const parent = join(workspace, PROMPTS_DIR);
+    await mkdir(parent, { recursive: true, mode: 0o700 });
+    // Keeps prompts out of `git status` and commits, including the agent's.
+    await writeFile(join(parent, ".gitignore"), "*\n");
+    dir = await mkdtemp(join(parent, "prompt-"));
+    const file = join(dir, "prompt.md");
+    await writeFile(file, prompt, { mode: 0o600 });
+    const tempDir = dir;
+    return {
+      kind: "file",
+      arg:
+        `Your full instructions and the conversation so far are in the file ${file}. ` +
+        "Read that whole file first, then respond to it exactly as if its contents had been sent to you as this message.",
+      cleanup: () => removePromptDir(tempDir),
+    };
+  } catch (err) {
+    if (dir) await removePromptDir(dir).catch(() => {});
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not write the Cursor prompt to a temp file: ${msg}`);
+  }
+}
+
+/**
+ * Choose a transport for `prompt` and prepare it.
+ * Throws with an explanatory message when no transport can carry the prompt.
+ */
+export async function preparePrompt(
+  target: PromptTarget,
+  prompt: string,
+  preference: PromptTransportPreference = "auto",
+): Promise<PreparedPrompt> {
+  const stdinPrompt: PreparedPrompt = { kind: "stdin", stdin: prompt, cleanup: async () => {} };
+  if (preference === "stdin") return stdinPrompt;
+
+  const bytes = Buffer.byteLength(prompt);
+  if (preference === "auto") {
+    const version = await detectCliVersion(target.agentPath, target.env);
+    if (supportsStdin(version)) return stdinPrompt;
+    if (bytes > FILE_PROMPT_MAX_BYTES) {
+      throw new Error(
+        `The prompt is ${bytes} bytes, too large to pass through a temp file (limit ${FILE_PROMPT_MAX_BYTES}), ` +
+          `and Cursor Agent CLI ${version ?? "(unknown version)"} cannot read prompts from stdin. ` +
+          `Update the CLI to ${STDIN_MIN_VERSION} or later, or set CURSOR_PROMPT_TRANSPORT=stdin to force stdin.`,
+      );
+    }
+  }
+  return preparePromptFile(prompt, target.workspace);
+}
@@ -0,0 +1,211 @@
+/**
+ * Cursor CLI `--output-format stream-json` protocol.
+ *
+ * Every stdout line is one JSON event. Lines are validated against the event
+ * shapes below before the provider acts on them; anything else — invalid
+ * JSON, events of an unknown type, known events with an unexpected shape —
+ * is recorded as a diagnostic instead of being dropped silently, so a CLI
+ * update that changes the format shows up in errors and in /cursor-debug.
+ *
+ * The final `result` event decides the outcome of a turn: `success` ends it
+ * normally, any other subtype (or `is_error: true`) is a failure even when
+ * text has already been streamed.
+ */
+
+import type { CursorToolCallPayload } from "./tool-format.js";
+
+export type CursorContentBlock = { type: "text"; text: string } | { type: "thinking"; thinking: string };
+
+export interface CursorSystemEvent {
+  type: "system";
+  subtype?: string;
+  session_id?: string;
+}
+
+/** Echo of the prompt; carries nothing the provider needs. */
+export interface CursorUserEvent {
+  type: "user";
+  session_id?: string;
+}
+
+export interface CursorAssistantEvent {
+  type: "assistant";
+  message: { role: "assistant"; content: CursorContentBlock[] };
+  session_id?: string;
+}
+
+/**
+ * Reasoning output of thinking models. Deltas arrive before the assistant
+ * text; `completed` closes the thinking block.
+ */
+export interface CursorThinkingEvent {
+  type: "thinking";
+  subtype: "delta" | "completed";
+  text?: string;
+  session_id?: string;
+}
+
+export interface CursorToolCallEvent {
+  type: "tool_call";
+  subtype: "started" | "completed";
+  /** CLI tool key (e.g. "shellToolCall"); the only key of the raw `tool_call` object. */
+  toolKey: string;
+  payload: CursorToolCallPayload;
+  session_id?: string;
+}
+
+export interface CursorResultEvent {
+  type: "result";
+  subtype: string;
+  is_error?: boolean;
+  /** Final text, or the error description for failed turns. */
+  result?: string;
+  duration_ms?: number;
+  session_id?: string;
+}
+
+export type CursorStreamEvent =
+  | CursorSystemEvent
+  | CursorUserEvent
+  | CursorAssistantEvent
+  | CursorThinkingEvent
+  | CursorToolCallEvent
+  | CursorResultEvent;
+
+export type ParsedLine =
+  | { kind: "event"; event: CursorStreamEvent }
+  | { kind: "empty" }
+  | { kind: "diagnostic"; reason: string };
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+const optionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+/** Validators return the typed event, or a description of what is wrong. */
+const VALIDATORS: Record<CursorStreamEvent["type"], (raw: Fields) => CursorStreamEvent | string> = {
+  system: (raw) => (optionalString(raw.subtype) ? (raw as unknown as CursorSystemEvent) : "subtype is not a string"),
+  user: (raw) => raw as unknown as CursorUserEvent,
+  assistant: (raw) => {
+    if (!isObject(raw.message) || !Array.isArray(raw.message.content)) return "message.content is not an array";
+    const content: CursorContentBlock[] = [];
+    for (const block of raw.message.content) {
+      if (!isObject(block)) return "message.content has a non-object block";
+      if (block.type === "text" && typeof block.text === "string") content.push({ type: "text", text: block.text });
+      else if (block.type === "thinking" && typeof block.thinking === "string") {
+        content.push({ type: "thinking", thinking: block.thinking });
+      } else if (block.type === "text" || block.type === "thinking") {
+        return `message.content has a ${block.type} block without its text`;
+      }
+      // Other block types are not rendered by the provider.
+    }
+    return { ...raw, type: "assistant", message: { role: "assistant", content } } as CursorAssistantEvent;
+  },
+  thinking: (raw) => {
+    if (raw.subtype !== "delta" && raw.subtype !== "completed") return `unknown subtype ${JSON.stringify(raw.subtype)}`;
+    if (!optionalString(raw.text)) return "text is not a string";
+    return raw as unknown as CursorThinkingEvent;
+  },
+  tool_call: (raw) => {
+    if (raw.subtype !== "started" && raw.subtype !== "completed") return `unknown subtype ${JSON.stringify(raw.subtype)}`;
+    if (!isObject(raw.tool_call)) return "tool_call is not an object";
+    const keys = Object.keys(raw.tool_call);
+    const toolKey = keys[0];
+    if (keys.length !== 1 || !toolKey) return `tool_call has ${keys.length} keys, expected 1`;
+    const payload = raw.tool_call[toolKey];
+    if (!isObject(payload)) return `tool_call.${toolKey} is not an object`;
+    if (payload.args !== undefined && !isObject(payload.args)) return `tool_call.${toolKey}.args is not an object`;
+    if (payload.result !== undefined && !isObject(payload.result)) return `tool_call.${toolKey}.result is not an object`;
+    return {
+      type: "tool_call",
+      subtype: raw.subtype,
+      toolKey,
+      payload: { ...payload, args: payload.args ?? {} } as CursorToolCallPayload,
+      session_id: typeof raw.session_id === "string" ? raw.session_id : undefined,
+    };
+  },
+  result: (raw) => {
+    if (typeof raw.subtype !== "string") return "subtype is not a string";
+    if (raw.is_error !== undefined && typeof raw.is_error !== "boolean") return "is_error is not a boolean";
+    if (!optionalString(raw.result)) return "result is not a string";
+    if (raw.duration_ms !== undefined && typeof raw.duration_ms !== "number") return "duration_ms is not a number";
+    return raw as unknown as CursorResultEvent;
+  },
+};
+
+/** Longest excerpt of an offending line kept in a diagnostic. */
+const EXCERPT_LENGTH = 160;
+
+function excerpt(line: string): string {
+  return line.length > EXCERPT_LENGTH ? `${line.slice(0, EXCERPT_LENGTH)}…` : line;
+}
+
+/** Parse and validate one stdout line. */
+export function parseLine(line: string): ParsedLine {
+  const trimmed = line.trim();
+  if (!trimmed) return { kind: "empty" };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch {
+    return { kind: "diagnostic", reason: `invalid JSON: ${excerpt(trimmed)}` };
+  }
+  if (!isObject(raw) || typeof raw.type !== "string") {
+    return { kind: "diagnostic", reason: `not an event object: ${excerpt(trimmed)}` };
+  }
+  const validate = Object.hasOwn(VALIDATORS, raw.type) ? VALIDATORS[raw.type as CursorStreamEvent["type"]] : undefined;
+  if (!validate) return { kind: "diagnostic", reason: `unknown event type "${raw.type}": ${excerpt(trimmed)}` };
+  if (raw.session_id !== undefined && typeof raw.session_id !== "string") {
+    return { kind: "diagnostic", reason: `${raw.type} event: session_id is not a string` };
+  }
+  const event = validate(raw);
+  return typeof event === "string"
+    ? { kind: "diagnostic", reason: `${raw.type} event: ${event}: ${excerpt(trimmed)}` }
+    : { kind: "event", event };
+}
+
+/** Whether a `result` event reports a failed turn. */
+export function isErrorResult(event: CursorResultEvent): boolean {
+  return event.is_error === true || event.subtype !== "success";
+}
+
+/**
+ * Pi stop reason for a `result` event. Turns cut short by a limit (e.g.
+ * `error_max_turns`, `max_tokens`) keep their output and stop with `length`.
+ */
+export function resultStopReason(event: CursorResultEvent): "stop" | "length" | "error" {
+  if (!isErrorResult(event)) return "stop";
+  return /max_(turns|tokens)|length|context_window/.test(event.subtype) ? "length" : "error";
+}
+
+/** Error text for a failed `result` event. */
+export function resultErrorMessage(event: CursorResultEvent): string {
+  const detail = event.is_error && event.result?.trim() ? `: ${event.result.trim()}` : "";
+  return `Cursor CLI reported ${event.subtype === "success" ? "an error" : `"${event.subtype}"`}${detail}`;
+}
+
+/** Number of diagnostics kept per run; later ones are only counted. */
+const MAX_DIAGNOSTICS = 20;
+
+/** Protocol problems seen during one agent run. */
+export interface ProtocolDiagnostics {
+  entries: string[];
+  /** Diagnostics beyond MAX_DIAGNOSTICS. */
+  dropped: number;
+}
+
+export function addDiagnostic(diagnostics: ProtocolDiagnostics, lineNo: number, reason: string): void {
+  if (diagnostics.entries.length < MAX_DIAGNOSTICS) diagnostics.entries.push(`line ${lineNo}: ${reason}`);
+  else diagnostics.dropped++;
+}
+
+/** Multi-line summary, empty when nothing was recorded. */
+export function formatDiagnostics(diagnostics: ProtocolDiagnostics): string {
+  const count = diagnostics.entries.length + diagnostics.dropped;
+  if (count === 0) return "";
+  const more = diagnostics.dropped > 0 ? [`  … and ${diagnostics.dropped} more`] : [];
+  return [`Unexpected CLI output (${count}):`, ...diagnostics.entries.map((e) => `  ${e}`), ...more].join("\n");
+}
@@ -0,0 +1,142 @@
+/**
+ * Raw protocol recordings.
+ *
+ * With `record` enabled, every agent run is appended to a JSONL log per Pi
+ * session under ~/.pi/agent/cursor-provider/recordings/. One run is a `run`
+ * entry followed by the process output, in arrival order:
+ *
+ *   {"type":"run","version":1,"run":"<id>","time":"…","model":"…","workspace":"…","args":[…],"transport":"stdin","prompt":"…"}
+ *   {"type":"stdout","run":"<id>","t":412,"line":"{\"type\":\"assistant\",…}"}
+ *   {"type":"stderr","run":"<id>","t":415,"text":"…"}
+ *   {"type":"exit","run":"<id>","t":980,"code":0,"signal":null}
+ *
+ * `t` is milliseconds since the run started. The API key is redacted from the
+ * arguments; the prompt is recorded in full, so the files are private (0600)
+ * and should be reviewed before being attached to a bug report.
+ *
+ * /cursor-replay reads a recording back and feeds the stdout lines through the
+ * same event mapping as a live run, without an agent or a Cursor account.
+ */
+
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordedRunInfo {
+  run: string;
+  /** ISO timestamp of the start of the run. */
+  time: string;
+  piSessionId?: string;
+  /** CLI model id. */
+  model: string;
+  workspace: string;
+  args: string[];
+  transport: string;
+  prompt: string;
+}
+
+/** A run read back from a recording. */
+export interface RecordedRun {
+  info: RecordedRunInfo;
+  stdout: Array<{ t: number; line: string }>;
+  stderr: string;
+  /** Missing when the recording ends before the process exited. */
+  exit?: { t: number; code: number | null; signal: string | null };
+}
+
+/** Receives the output of one run while it is being recorded. */
+export interface RunRecorder {
+  stdout(line: string): void;
+  stderr(text: string): void;
+  exit(code: number | null, signal: string | null): void;
+}
+
+export function recordingsDir(): string {
+  return join(getAgentDir(), "cursor-provider", "recordings");
+}
+
+/** Session log for a Pi session; runs without a session share one file per day. */
+export function recordingFile(piSessionId: string | undefined): string {
+  const name = piSessionId ?? `no-session-${new Date().toISOString().slice(0, 10)}`;
+  return join(recordingsDir(), `${name.replace(/[^\w.-]/g, "_")}.jsonl`);
+}
+
+/** Replace the value of `--api-key` in CLI arguments. */
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) => (args[i - 1] === "--api-key" ? "<redacted>" : arg));
+}
+
+/** Appends are chained so entries keep their order across runs. */
+let writes: Promise<void> = Promise.resolve();
+
+function append(file: string, entry: Record<string, unknown>): void {
+  writes = writes
+    .then(async () => {
+      await mkdir(recordingsDir(), { recursive: true, mode: 0o700 });
+      await appendFile(file, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    })
+    // A recording must never break a turn.
+    .catch(() => {});
+}
+
+/** Resolves once everything recorded so far is on disk. */
+export function flushRecordings(): Promise<void> {
+  return writes;
+}
+
+/** Start recording a run to `file`. */
+export function startRecording(file: string, info: Omit<RecordedRunInfo, "run" | "time">): RunRecorder {
+  const run = randomUUID();
+  const start = Date.now();
+  const t = () => Date.now() - start;
+  append(file, {
+    type: "run",
+    version: RECORDING_VERSION,
+    run,
+    time: new Date(start).toISOString(),
+    ...info,
+    args: redactArgs(info.args),
+  });
+  return {
+    stdout: (line) => append(file, { type: "stdout", run, t: t(), line }),
+    stderr: (text) => append(file, { type: "stderr", run, t: t(), text }),
+    exit: (code, signal) => append(file, { type: "exit", run, t: t(), code, signal }),
+  };
+}
+
+/** Read a recording. Throws with the offending line number on malformed files. */
+export async function readRecording(file: string): Promise<RecordedRun[]> {
+  const runs = new Map<string, RecordedRun>();
+  const lines = (await readFile(file, "utf8")).split("\n");
+  for (const [i, text] of lines.entries()) {
+    if (!text.trim()) continue;
+    const fail = (reason: string): never => {
+      throw new Error(`${file}:${i + 1}: ${reason}`);
+    };
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(text) as Record<string, unknown>;
+    } catch {
+      fail("not JSON");
+      continue;
+    }
+    if (entry.type === "run") {
+      if (entry.version !== RECORDING_VERSION) fail(`unsupported recording version ${JSON.stringify(entry.version)}`);
+      if (typeof entry.run !== "string" || !Array.isArray(entry.args)) fail("run entry without id or args");
+      const { type: _type, version: _version, ...info } = entry;
+      runs.set(entry.run as string, { info: info as unknown as RecordedRunInfo, stdout: [], stderr: "" });
+      continue;
+    }
+    const run = runs.get(entry.run as string) ?? fail(`entry for unknown run ${JSON.stringify(entry.run)}`);
+    const t = typeof entry.t === "number" ? entry.t : 0;
+    if (entry.type === "stdout" && typeof entry.line === "string") run.stdout.push({ t, line: entry.line });
+    else if (entry.type === "stderr" && typeof entry.text === "string") run.stderr += entry.text;
+    else if (entry.type === "exit") {
+      run.exit = { t, code: (entry.code as number | null) ?? null, signal: (entry.signal as string | null) ?? null };
+    } else fail(`unknown entry ${JSON.stringify(entry.type)}`);
+  }
+  return [...runs.values()];
+}
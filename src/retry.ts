@@ -0,0 +1,105 @@
+/**
+ * Failure classification, retry backoff and fallback model chains.
+ *
+ * A turn that fails before anything was streamed can be tried again without
+ * the user noticing. How depends on the failure:
+ *
+ *   transient    rate limits, overload, network errors — retried on the same
+ *                model with exponential backoff (`retries`, `retryBaseDelayMs`)
+ *   unavailable  the model is unknown, not in the subscription or out of
+ *                quota — the next model of the fallback chain is tried
+ *   fatal        anything else (authentication, bad arguments, …) — the
+ *                error is reported as is
+ *
+ * A transient failure that is still there after the last retry also moves on
+ * to the fallback chain. Fallback chains come from the `fallbackModels`
+ * setting, keyed by Pi model id, with "*" applying to every other model:
+ *
+ *   "fallbackModels": { "opus-4.6": ["sonnet-4.6", "auto"], "*": ["auto"] }
+ */
+
+export type FailureKind = "transient" | "unavailable" | "fatal";
+
+export interface FailureClass {
+  kind: FailureKind;
+  /** Short description for stream announcements, e.g. "rate limited". */
+  reason: string;
+}
+
+/** Checked in order; the first match wins. */
+const PATTERNS: Array<{ kind: FailureKind; reason: string; pattern: RegExp }> = [
+  {
+    kind: "unavailable",
+    reason: "model not available",
+    pattern:
+      /\b(unknown|invalid|unsupported) model\b|\bmodel\b[^\n]*\bnot (available|found|supported|enabled)\b|not (included|available) (in|on|with) your (plan|subscription)|(do(es)? not|don't) have access to\b[^\n]*\bmodel|upgrade your plan/i,
+  },
+  {
+    kind: "unavailable",
+    reason: "usage limit reached",
+    pattern: /\busage limit\b|\bquota\b[^\n]*\b(exceeded|exhausted|reached)\b|\bout of (credits|requests)\b/i,
+  },
+  {
+    kind: "transient",
+    reason: "rate limited",
+    pattern: /\brate[ -]?limit|too many requests|\b429\b/i,
+  },
+  {
+    kind: "transient",
+    reason: "service unavailable",
+    pattern: /\boverloaded\b|service unavailable|temporarily unavailable|bad gateway|gateway time-?out|\b50[234]\b/i,
+  },
+  {
+    kind: "transient",
+    reason: "network error",
+    pattern:
+      /\bE(CONNRESET|CONNREFUSED|CONNABORTED|TIMEDOUT|PIPE|AI_AGAIN|NOTFOUND|NETUNREACH|HOSTUNREACH)\b|socket hang up|fetch failed|network (error|is unreachable)|connection (reset|refused|closed|timed out)/i,
+  },
+];
+
+/** Classify a failed run from its stderr and the text of its `result` event. */
+export function classifyFailure(...texts: Array<string | undefined>): FailureClass {
+  const text = texts.filter(Boolean).join("\n");
+  for (const { kind, reason, pattern } of PATTERNS) {
+    if (pattern.test(text)) return { kind, reason };
+  }
+  return { kind: "fatal", reason: "error" };
+}
+
+/** Longest wait between two attempts. */
+export const MAX_RETRY_DELAY_MS = 30_000;
+
+/** Delay before retry number `attempt` (0-based): base · 2^attempt, capped. */
+export function retryDelayMs(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Models to try after a model, in order, without repeats or the model itself.
+ * `modelIds` are the ids the model goes by — its Pi id, then its CLI ids — and
+ * the first one with an entry in `fallbacks` picks the chain.
+ */
+export function fallbackChain(modelIds: string[], fallbacks: Record<string, string[]>): string[] {
+  const key = modelIds.find((id) => fallbacks[id]);
+  const chain = (key ? fallbacks[key] : fallbacks["*"]) ?? [];
+  return [...new Set(chain)].filter((id) => !modelIds.includes(id));
+}
+
+/** Resolve after `ms`, or early when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
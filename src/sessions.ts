@@ -0,0 +1,117 @@
+/**
+ * Cursor chat session tracking.
+ *
+ * Every stream-json event carries the `session_id` of the Cursor chat that
+ * produced it. We remember that id per Pi session together with a fingerprint
+ * of every message Cursor has already seen, so the next turn can `--resume`
+ * the chat and send only the messages Pi appended since then.
+ *
+ * Whenever the Pi history no longer extends what Cursor saw (an edited or
+ * branched conversation, compaction, a changed system prompt or workspace),
+ * the caller falls back to replaying the full transcript.
+ */
+
+import { createHash } from "node:crypto";
+import type { AssistantMessage, Context, Message } from "@mariozechner/pi-ai";
+
+export interface CursorSessionState {
+  /** Cursor chat id, passed back to the CLI via `--resume`. */
+  cursorSessionId: string;
+  /** Workspace the chat was started in; a different workspace never resumes. */
+  workspace: string;
+  /** Hash of the system prompt the chat was started with. */
+  systemPromptHash: string;
+  /** One hash per Pi message Cursor has seen, in order. */
+  messageHashes: string[];
+}
+
+/** What to send when an existing Cursor chat can be resumed. */
+export interface ResumePlan {
+  cursorSessionId: string;
+  /** Messages Pi appended since the last successful turn. */
+  newMessages: Message[];
+}
+
+/** Pi session id → Cursor chat state. Kept for the lifetime of the process. */
+const sessions = new Map<string, CursorSessionState>();
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Fingerprint a message by role and textual content. Timestamps, usage and
+ * other metadata are ignored so that the assistant message Pi stores for a
+ * Cursor reply matches the one we produced.
+ */
+function fingerprintMessage(msg: Message): string {
+  if (msg.role === "user") {
+    const parts =
+      typeof msg.content === "string"
+        ? [msg.content]
+        : msg.content.map((c) => (c.type === "text" ? c.text : `image:${hash(c.data)}`));
+    return hash(JSON.stringify(["user", parts]));
+  }
+  if (msg.role === "assistant") {
+    const parts = msg.content.map((c) => {
+      if (c.type === "text") return c.text;
+      if (c.type === "toolCall") return `toolCall:${c.name}:${JSON.stringify(c.arguments)}`;
+      return "";
+    });
+    return hash(JSON.stringify(["assistant", parts]));
+  }
+  const parts = msg.content.map((c) => (c.type === "text" ? c.text : `image:${hash(c.data)}`));
+  return hash(JSON.stringify(["toolResult", msg.toolCallId, msg.toolName, parts]));
+}
+
+/**
+ * Decide whether the Cursor chat recorded for `piSessionId` can be resumed
+ * for this context. Returns null when a full replay is required.
+ */
+export function planResume(
+  piSessionId: string | undefined,
+  context: Context,
+  workspace: string,
+): ResumePlan | null {
+  if (!piSessionId) return null;
+  const state = sessions.get(piSessionId);
+  if (!state) return null;
+  if (state.workspace !== workspace) return null;
+  if (state.systemPromptHash !== hash(context.systemPrompt ?? "")) return null;
+
+  const seen = state.messageHashes;
+  if (context.messages.length <= seen.length) return null;
+  for (let i = 0; i < seen.length; i++) {
+    if (fingerprintMessage(context.messages[i]) !== seen[i]) return null;
+  }
+
+  const newMessages = context.messages.slice(seen.length);
+  // Only user input and tool results can follow a finished Cursor turn.
+  if (newMessages.some((m) => m.role === "assistant")) return null;
+  return { cursorSessionId: state.cursorSessionId, newMessages };
+}
+
+/**
+ * Record the Cursor chat that answered `context` with `reply`, so the next
+ * turn in the same Pi session can resume it.
+ */
+export function recordSession(
+  piSessionId: string | undefined,
+  cursorSessionId: string,
+  context: Context,
+  reply: AssistantMessage,
+  workspace: string,
+): void {
+  if (!piSessionId) return;
+  sessions.set(piSessionId, {
+    cursorSessionId,
+    workspace,
+    systemPromptHash: hash(context.systemPrompt ?? ""),
+    messageHashes: [...context.messages, reply].map(fingerprintMessage),
+  });
+}
+
+/** Drop the recorded chat so the next turn replays the full transcript. */
+export function forgetSession(piSessionId: string | undefined): void {
+  if (piSessionId) sessions.delete(piSessionId);
+}
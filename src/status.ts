@@ -0,0 +1,43 @@
+/**
+ * Cursor status line — account, model and turn progress in Pi's footer.
+ *
+ *   Cursor: dev@example.com · sonnet-4.6-thinking · running: Edit src/app.ts
+ *   Cursor: dev@example.com · sonnet-4.6-thinking · last turn 1.2s to first token, 8.4s total
+ *   Cursor (work): dev@corp.example · auto · running
+ *
+ * The model is the CLI model id actually used, after the reasoning level and
+ * any fallback were applied. The account comes from `agent status`, read when
+ * the session starts and refreshed by /cursor-status and /cursor-login.
+ */
+
+import type { AuthState } from "./auth.js";
+
+/** Key passed to `ctx.ui.setStatus`. */
+export const STATUS_KEY = "cursor";
+
+export interface CursorStatus {
+  /** Account profile of the current or last run (see src/profiles.ts). */
+  profile?: string;
+  auth?: AuthState;
+  /** CLI model id of the current or last run. */
+  model?: string;
+  running: boolean;
+  /** Cursor tool call in progress, e.g. "Edit src/app.ts". */
+  tool?: string;
+  /** Timing of the last finished assistant message, in ms. */
+  last?: { ttft?: number; duration: number };
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function formatStatus(status: CursorStatus): string {
+  const parts: string[] = [];
+  if (status.auth) parts.push(status.auth.loggedIn ? (status.auth.email ?? "logged in") : "not logged in");
+  if (status.model) parts.push(status.model);
+  if (status.running) parts.push(status.tool ? `running: ${status.tool}` : "running");
+  else if (status.last) {
+    const { ttft, duration } = status.last;
+    parts.push(`last turn ${ttft !== undefined ? `${seconds(ttft)} to first token, ` : ""}${seconds(duration)} total`);
+  }
+  return `Cursor${status.profile ? ` (${status.profile})` : ""}: ${parts.join(" · ") || "idle"}`;
+}
@@ -0,0 +1,234 @@
+/**
+ * Inline rendering of Cursor CLI tool calls.
+ *
+ * The Cursor agent executes its tools itself; Pi only sees `tool_call` events
+ * and shows them as informational text inside the assistant message. Each
+ * call produces a ⏳ line when it starts and a result line when it completes:
+ *
+ *   ⏳ [Shell] npm test
+ *   ✓ [Shell] npm test — exit 0
+ *   ```
+ *   …truncated output…
+ *   ```
+ *
+ * Rejected calls are marked ⊘ and failed calls ✗. Formatters are keyed on the
+ * Pi display name from TOOL_NAME_MAP; unknown tools fall back to a short JSON
+ * snippet of their arguments.
+ */
+
+/**
+ * A single Cursor CLI tool call (the value keyed by tool name).
+ * The key is the tool name in camelCase (e.g. "shellToolCall", "readToolCall").
+ * args are present on both started and completed; result only on completed.
+ */
+export interface CursorToolCallPayload {
+  args: Record<string, unknown>;
+  result?: {
+    success?: Record<string, unknown>;
+    rejected?: { reason?: string };
+    error?: { message?: string };
+  };
+}
+
+/** Maximum number of output/diff lines shown for a completed call. */
+const MAX_BODY_LINES = 12;
+
+/** Maximum length of a single rendered line. */
+const MAX_LINE_LENGTH = 160;
+
+/** Maximum length of the argument summary on the marker line. */
+const MAX_SUMMARY_LENGTH = 120;
+
+type Fields = Record<string, unknown>;
+
+interface CompletedView {
+  /** Short outcome appended to the marker line (e.g. "exit 0", "42 lines"). */
+  outcome?: string;
+  /** Optional fenced body (command output, diff). */
+  body?: { lang: string; text: string };
+  /** True when the tool ran but reported a failure (e.g. non-zero exit). */
+  failed?: boolean;
+}
+
+interface ToolFormatter {
+  summary(args: Fields): string | undefined;
+  completed?(args: Fields, success: Fields): CompletedView;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function plural(n: number, word: string, pluralWord = `${word}s`): string {
+  return `${n} ${n === 1 ? word : pluralWord}`;
+}
+
+/** Keep the last (tail) or first lines of `text`, noting how many were cut. */
+function truncateLines(text: string, keep: "head" | "tail"): string {
+  const lines = text.replace(/\s+$/, "").split("\n");
+  const clipped = lines.map((l) => clip(l, MAX_LINE_LENGTH));
+  if (clipped.length <= MAX_BODY_LINES) return clipped.join("\n");
+  const cut = clipped.length - MAX_BODY_LINES;
+  return keep === "tail"
+    ? [`… ${plural(cut, "line")} omitted`, ...clipped.slice(-MAX_BODY_LINES)].join("\n")
+    : [...clipped.slice(0, MAX_BODY_LINES), `… ${plural(cut, "line")} omitted`].join("\n");
+}
+
+/**
+ * Build a compact unified diff between two snippets. This is not a minimal
+ * diff: shared leading and trailing lines become context and everything in
+ * between is shown as removed/added.
+ */
+export function compactDiff(path: string, before: string, after: string): string {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const ctx = 2;
+  const from = Math.max(0, start - ctx);
+  const lenA = Math.min(a.length, endA + ctx) - from;
+  const lenB = Math.min(b.length, endB + ctx) - from;
+  const lines = [`--- ${path}`, `+++ ${path}`, `@@ -${from + 1},${lenA} +${from + 1},${lenB} @@`];
+  for (let i = from; i < start; i++) lines.push(` ${a[i]}`);
+  for (let i = start; i < endA; i++) lines.push(`-${a[i]}`);
+  for (let i = start; i < endB; i++) lines.push(`+${b[i]}`);
+  for (let i = endA; i < Math.min(a.length, endA + ctx); i++) lines.push(` ${a[i]}`);
+  return lines.join("\n");
+}
+
+function countMatches(success: Fields): number | undefined {
+  const direct = num(success.totalMatches) ?? num(success.matchCount) ?? num(success.numMatches);
+  if (direct !== undefined) return direct;
+  const matches = success.matches;
+  if (Array.isArray(matches)) return matches.length;
+  const content = str(success.content) ?? str(success.output);
+  return content ? content.split("\n").filter(Boolean).length : undefined;
+}
+
+/** File a tool call operates on, if its arguments name one. */
+export const pathOf = (args: Fields): string | undefined => str(args.path) ?? str(args.filePath) ?? str(args.targetFile);
+
+const FORMATTERS: Record<string, ToolFormatter> = {
+  Shell: {
+    summary: (args) => str(args.command),
+    completed: (_args, success) => {
+      const exitCode = num(success.exitCode);
+      const output = [str(success.stdout), str(success.stderr)].filter(Boolean).join("\n");
+      return {
+        outcome: exitCode !== undefined ? `exit ${exitCode}` : undefined,
+        failed: exitCode !== undefined && exitCode !== 0,
+        body: output.trim() ? { lang: "", text: truncateLines(output, "tail") } : undefined,
+      };
+    },
+  },
+  Read: {
+    summary: pathOf,
+    completed: (_args, success) => {
+      const total = num(success.totalLines);
+      const content = str(success.content);
+      const lines = total ?? (content ? content.split("\n").length : undefined);
+      return { outcome: lines !== undefined ? plural(lines, "line") : undefined };
+    },
+  },
+  Grep: {
+    summary: (args) => {
+      const pattern = str(args.pattern);
+      const where = pathOf(args) ?? str(args.glob);
+      return pattern ? `/${pattern}/${where ? ` in ${where}` : ""}` : undefined;
+    },
+    completed: (_args, success) => {
+      const matches = countMatches(success);
+      return { outcome: matches !== undefined ? plural(matches, "match", "matches") : undefined };
+    },
+  },
+  Glob: {
+    summary: (args) => {
+      const pattern = str(args.globPattern) ?? str(args.pattern);
+      const dir = str(args.targetDirectory) ?? pathOf(args);
+      return pattern ? `${pattern}${dir ? ` in ${dir}` : ""}` : undefined;
+    },
+    completed: (_args, success) => {
+      const files = num(success.totalFiles) ?? (Array.isArray(success.files) ? success.files.length : undefined);
+      return { outcome: files !== undefined ? plural(files, "file") : undefined };
+    },
+  },
+  Edit: {
+    summary: pathOf,
+    completed: (args, success) => {
+      const path = pathOf(args) ?? str(success.path) ?? "file";
+      const added = num(success.linesAdded);
+      const removed = num(success.linesRemoved);
+      const outcome = added !== undefined || removed !== undefined ? `+${added ?? 0} −${removed ?? 0}` : undefined;
+      const oldString = typeof args.oldString === "string" ? args.oldString : undefined;
+      const newString = typeof args.newString === "string" ? args.newString : undefined;
+      const diff =
+        str(success.diffString) ??
+        (oldString !== undefined || newString !== undefined
+          ? compactDiff(path, oldString ?? "", newString ?? "")
+          : undefined);
+      return { outcome, body: diff ? { lang: "diff", text: truncateLines(diff, "head") } : undefined };
+    },
+  },
+  Write: {
+    summary: pathOf,
+    completed: (args, success) => {
+      const text = str(args.fileText) ?? str(args.contents) ?? "";
+      const lines = num(success.linesCreated) ?? (text ? text.split("\n").length : undefined);
+      const diff = text ? compactDiff(pathOf(args) ?? "file", "", text) : undefined;
+      return {
+        outcome: lines !== undefined ? plural(lines, "line") : undefined,
+        body: diff ? { lang: "diff", text: truncateLines(diff, "head") } : undefined,
+      };
+    },
+  },
+  Delete: { summary: pathOf },
+  Ls: { summary: pathOf },
+  WebFetch: { summary: (args) => str(args.url) },
+  WebSearch: { summary: (args) => str(args.query) ?? str(args.searchTerm) },
+};
+
+/** One-line summary of a tool call's arguments (command, path, pattern…). */
+export function summarizeToolCall(toolName: string, args: Fields): string {
+  const summary = FORMATTERS[toolName]?.summary(args);
+  if (summary) return clip(summary.replace(/\s+/g, " "), MAX_SUMMARY_LENGTH);
+  return clip(JSON.stringify(args), MAX_SUMMARY_LENGTH);
+}
+
+/** Marker line for a tool call that has just started. */
+export function formatToolStarted(toolName: string, payload: CursorToolCallPayload): string {
+  return `\n⏳ [${toolName}] ${summarizeToolCall(toolName, payload.args ?? {})}\n`;
+}
+
+/** Result line (and optional fenced body) for a completed tool call. */
+export function formatToolCompleted(toolName: string, payload: CursorToolCallPayload): string {
+  const args = payload.args ?? {};
+  const label = `[${toolName}] ${summarizeToolCall(toolName, args)}`;
+  const result = payload.result;
+
+  if (result?.rejected) {
+    return `\n⊘ ${label} — rejected${result.rejected.reason ? `: ${result.rejected.reason}` : ""}\n`;
+  }
+  if (result?.error || !result?.success) {
+    const message = result?.error?.message;
+    return `\n✗ ${label} — error${message ? `: ${clip(message, MAX_LINE_LENGTH)}` : ""}\n`;
+  }
+
+  const view = FORMATTERS[toolName]?.completed?.(args, result.success) ?? {};
+  let text = `\n${view.failed ? "✗" : "✓"} ${label}${view.outcome ? ` — ${view.outcome}` : ""}\n`;
+  if (view.body) text += `\`\`\`${view.body.lang}\n${view.body.text}\n\`\`\`\n`;
+  return text;
+}
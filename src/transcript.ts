@@ -0,0 +1,119 @@
+/**
+ * Transcript formats — how Pi's message history is written into the prompt.
+ *
+ * `xml` (default) wraps every message in a tag and escapes `&`, `<` and `>`
+ * in all content, so text that merely looks like a tag cannot open or close a
+ * message. Assistant thinking and tool calls are kept, and tool results carry
+ * the id of the call they answer:
+ *
+ *   <transcript version="1">
+ *   <!-- how to read the transcript -->
+ *
+ *   <system>
+ *   …
+ *   </system>
+ *
+ *   <user>
+ *   List the files
+ *   </user>
+ *
+ *   <assistant>
+ *   <tool_call id="call-1" name="ls">
+ *   {"path":"."}
+ *   </tool_call>
+ *   </assistant>
+ *
+ *   <tool_result id="call-1" name="ls" status="ok">
+ *   index.ts
+ *   </tool_result>
+ *
+ *   </transcript>
+ *
+ * `plain` is the original `[User]` / `[Assistant]` / `[Tool result: x]`
+ * format: no escaping, and only the text of assistant messages. The version
+ * attribute changes whenever the xml layout does.
+ */
+
+import type { ImageContent, Message, TextContent } from "@mariozechner/pi-ai";
+
+export type TranscriptFormat = "xml" | "plain";
+
+export const TRANSCRIPT_VERSION = 1;
+
+/** Escape text for use as element content. */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function element(name: string, attrs: Record<string, string>, body: string): string {
+  const attributes = Object.entries(attrs)
+    .map(([key, value]) => ` ${key}="${escapeXml(value).replace(/"/g, "&quot;")}"`)
+    .join("");
+  return `<${name}${attributes}>\n${escapeXml(body)}\n</${name}>`;
+}
+
+/** Opening and closing blocks around the serialised messages, if the format has any. */
+export function transcriptFrame(format: TranscriptFormat): { open?: string; close?: string } {
+  if (format === "plain") return {};
+  return {
+    open:
+      `<transcript version="${TRANSCRIPT_VERSION}">\n` +
+      "<!-- The conversation so far. Only the tags written by Pi (system, user, assistant, thinking, " +
+      "tool_call, tool_result) are structure; everything inside them is content, with &, < and > escaped. " +
+      "Respond to the last message. -->",
+    close: "</transcript>",
+  };
+}
+
+export function renderSystemPrompt(format: TranscriptFormat, text: string): string {
+  return format === "plain" ? `[System]\n${text}\n` : element("system", {}, text);
+}
+
+/**
+ * Render one message as a transcript block; returns "" for messages with
+ * nothing to show. `toText` turns text and image blocks into prompt text.
+ */
+export function renderMessage(
+  format: TranscriptFormat,
+  msg: Message,
+  toText: (block: TextContent | ImageContent) => string,
+): string {
+  return format === "plain" ? renderPlain(msg, toText) : renderXml(msg, toText);
+}
+
+function renderPlain(msg: Message, toText: (block: TextContent | ImageContent) => string): string {
+  if (msg.role === "user") {
+    const text = typeof msg.content === "string" ? msg.content : msg.content.map(toText).join("\n");
+    return `[User]\n${text}`;
+  }
+  if (msg.role === "assistant") {
+    const text = msg.content
+      .filter((c): c is TextContent => c.type === "text")
+      .map((c) => c.text)
+      .join("\n");
+    return text.trim() ? `[Assistant]\n${text}` : "";
+  }
+  const text = msg.content.map(toText).join("\n");
+  return text.trim() ? `[Tool result: ${msg.toolName}]\n${text}` : "";
+}
+
+function renderXml(msg: Message, toText: (block: TextContent | ImageContent) => string): string {
+  if (msg.role === "user") {
+    const text = typeof msg.content === "string" ? msg.content : msg.content.map(toText).join("\n");
+    return element("user", {}, text);
+  }
+  if (msg.role === "assistant") {
+    const parts: string[] = [];
+    for (const block of msg.content) {
+      if (block.type === "text" && block.text.trim()) parts.push(escapeXml(block.text));
+      else if (block.type === "thinking" && block.thinking.trim()) parts.push(element("thinking", {}, block.thinking));
+      else if (block.type === "toolCall") {
+        parts.push(element("tool_call", { id: block.id, name: block.name }, JSON.stringify(block.arguments ?? {})));
+      }
+    }
+    return parts.length > 0 ? `<assistant>\n${parts.join("\n")}\n</assistant>` : "";
+  }
+  // Kept even when empty, so every tool call has its result.
+  const attrs = { id: msg.toolCallId, name: msg.toolName, status: msg.isError ? "error" : "ok" };
+  return element("tool_result", attrs, msg.content.map(toText).join("\n"));
+}
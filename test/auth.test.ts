@@ -0,0 +1,67 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension from "../index.js";
+import { parseAgentStatus, parseLoginPrompt, runAgentStatus } from "../src/auth.js";
+import { createFakePi, type FakeAgent, installFakeAgent } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+describe("auth state", () => {
+  it("parses `agent status` output", () => {
+    expect(parseAgentStatus("\u001b[32m✓\u001b[0m Logged in as dev@example.com\nPlan: Pro\n")).toEqual({
+      loggedIn: true,
+      email: "dev@example.com",
+      plan: "Pro",
+      method: "browser",
+      raw: "✓ Logged in as dev@example.com\nPlan: Pro",
+    });
+    expect(parseAgentStatus("Authenticated with API key", true).method).toBe("api-key");
+    expect(parseAgentStatus("Not logged in\n")).toEqual({ loggedIn: false, raw: "Not logged in" });
+    expect(parseLoginPrompt("Visit https://cursor.com/login?c=x1 and enter code: ABCD-1234\n")).toEqual({
+      url: "https://cursor.com/login?c=x1",
+      code: "ABCD-1234",
+    });
+  });
+
+  it("gives up on an `agent status` that does not answer", async () => {
+    agent.setScenario({ status: { hang: true } });
+    await expect(runAgentStatus(process.env["CURSOR_AGENT_PATH"] ?? "", process.env, 300)).rejects.toThrow(
+      "`agent status` did not answer within 0.3s",
+    );
+  });
+
+  it("shows the login URL in a dialog and closes it once logged in", async () => {
+    agent.setScenario({
+      login: { stdout: "Open https://cursor.com/login?c=x1\nCode: ABCD-1234\n", delayMs: 300 },
+      statusAfterLogin: { stdout: "✓ Logged in as dev@example.com\nPlan: Pro\n" },
+    });
+    const dialogs: string[] = [];
+    const notes: string[] = [];
+    const ctx = {
+      hasUI: true,
+      ui: {
+        notify: (text: string) => notes.push(text),
+        // Stays open until the provider dismisses it.
+        select: (title: string, _options: string[], opts: { signal: AbortSignal }) => {
+          dialogs.push(title);
+          return new Promise((resolve) => opts.signal.addEventListener("abort", () => resolve(undefined)));
+        },
+      },
+    } as unknown as ExtensionCommandContext;
+
+    await fake.commands.get("cursor-login")?.handler("", ctx);
+
+    expect(dialogs).toHaveLength(1);
+    expect(dialogs[0]).toContain("https://cursor.com/login?c=x1");
+    expect(dialogs[0]).toContain("Code: ABCD-1234");
+    expect(notes).toEqual(["Logged in to Cursor as dev@example.com (plan: Pro, browser login)."]);
+  });
+});
@@ -0,0 +1,88 @@
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import extension, { toCursorId } from "../index.js";
+import { MODEL_CACHE_TTL_MS } from "../src/model-cache.js";
+import { createFakePi, type FakeAgent, installFakeAgent } from "./helpers.js";
+
+let agent: FakeAgent | undefined;
+
+afterEach(() => {
+  agent?.restore();
+  agent = undefined;
+});
+
+const modelIds = (config: { models?: Array<{ id: string }> }) => (config.models ?? []).map((m) => m.id);
+
+describe("model discovery", () => {
+  it("keeps the static list when `agent models` fails", async () => {
+    agent = installFakeAgent({ models: { stderr: "network error\n", exitCode: 1 } });
+    const { pi, providers, commands } = createFakePi();
+
+    await extension(pi);
+    await vi.waitFor(() => expect(agent?.invocations().some((i) => i.args.includes("models"))).toBe(true));
+
+    expect(providers).toHaveLength(1);
+    expect(modelIds(providers[0]?.config ?? {})).toEqual(expect.arrayContaining(["auto", "claude-sonnet-4-6"]));
+
+    const notify = vi.fn();
+    await commands.get("cursor-models")?.handler("refresh", { ui: { notify }, cwd: process.cwd() } as never);
+    expect(notify).toHaveBeenCalledWith(expect.stringContaining("network error"), "error");
+  });
+
+  it("re-registers the provider with discovered models and caches them", async () => {
+    agent = installFakeAgent({ models: { stdout: "Available models\n\nauto - Auto\nsonnet-4.6 - Claude 4.6 Sonnet\n" } });
+    const first = createFakePi();
+
+    await extension(first.pi);
+    await vi.waitFor(() => expect(first.providers).toHaveLength(2));
+    const ids = ["auto", "auto:ask", "auto:plan", "claude-sonnet-4-6", "claude-sonnet-4-6:ask", "claude-sonnet-4-6:plan"];
+    expect(modelIds(first.providers[1]?.config ?? {})).toEqual(ids);
+
+    // The next start registers the cached list straight away.
+    const second = createFakePi();
+    await extension(second.pi);
+    expect(modelIds(second.providers[0]?.config ?? {})).toEqual(ids);
+  });
+
+  it("refreshes a cached list only once it is older than the TTL", async () => {
+    agent = installFakeAgent({ models: { stdout: "Available models\n\nauto - Auto\nsonnet-4.6 - Claude 4.6 Sonnet\n" } });
+    const discovered = createFakePi();
+    await extension(discovered.pi);
+    await vi.waitFor(() => expect(discovered.providers).toHaveLength(2));
+    const listed = () => agent?.invocations().filter((i) => i.args.includes("models")).length;
+
+    agent.setScenario({ models: { stdout: "Available models\n\nauto - Auto\ngpt-6 - GPT-6\n" } });
+    const fresh = createFakePi();
+    await extension(fresh.pi);
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(listed()).toBe(0);
+    expect(fresh.providers).toHaveLength(1);
+
+    const dir = join(agent.dir, "cursor-provider");
+    const [file = ""] = readdirSync(dir).filter((f) => f.startsWith("models-"));
+    const cache = JSON.parse(readFileSync(join(dir, file), "utf8"));
+    writeFileSync(join(dir, file), JSON.stringify({ ...cache, fetchedAt: Date.now() - MODEL_CACHE_TTL_MS - 1 }));
+    const stale = createFakePi();
+    await extension(stale.pi);
+    expect(modelIds(stale.providers[0]?.config ?? {})).toContain("claude-sonnet-4-6");
+    await vi.waitFor(() => expect(stale.providers).toHaveLength(2));
+    expect(listed()).toBe(1);
+    expect(modelIds(stale.providers[1]?.config ?? {})).toContain("gpt-6");
+  });
+
+  it("groups newly discovered reasoning variants into one model", async () => {
+    agent = installFakeAgent({
+      models: { stdout: "Available models\n\nopus-5 - Claude 5 Opus\nopus-5-thinking - Claude 5 Opus (Thinking)\n" },
+    });
+    const { pi, providers } = createFakePi();
+
+    await extension(pi);
+    await vi.waitFor(() => expect(providers).toHaveLength(2));
+    const models = providers[1]?.config.models ?? [];
+    expect(models.map((m) => m.id)).toEqual(["opus-5", "opus-5:ask", "opus-5:plan"]);
+    expect(models[0]?.reasoning).toBe(true);
+    expect(toCursorId("opus-5")).toBe("opus-5");
+    expect(toCursorId("opus-5", "high")).toBe("opus-5-thinking");
+  });
+});
@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+/**
+ * Scriptable stand-in for the Cursor Agent CLI (`agent`), used by the tests
+ * through CURSOR_AGENT_PATH.
+ *
+ * Behaviour comes from the JSON scenario file named by FAKE_AGENT_SCENARIO:
+ *
+ *   {
+ *     "version": "2026.02.13-abc",                    // `agent --version`
+ *     "models":  { "stdout": "...", "exitCode": 0 },  // `agent models`
+ *     "status":  { "stdout": "...", "exitCode": 0, "hang": false },  // `agent status`
+ *     "login":   { "stdout": "...", "delayMs": 0, "exitCode": 0 },  // `agent login`
+ *     "statusAfterLogin": { … },  // `agent status` once a login has finished
+ *     "mcp": { "list": { "stdout": "...", "exitCode": 0 }, … },  // `agent mcp <subcommand>`
+ *     "print": {                                      // `agent --print …`
+ *       "lines": [{ "type": "assistant", … }, "not json"],
+ *       "delayMs": 0,          // pause between lines
+ *       "stderr": "",
+ *       "exitCode": 0,
+ *       "hang": false,         // keep running after the last line
+ *       "spawnChild": false,   // start a helper that shares stdout and never exits
+ *       "ignoreSigterm": false
+ *     },
+ *     "printSequence": [{ … }, { … }]  // n-th `--print` call uses the n-th entry
+ *   }                                   // (the last one repeats); overrides "print"
+ *
+ * Object lines are written as NDJSON, string lines verbatim; a line
+ * `{ "writeFiles": { "src/a.ts": "…" } }` writes into --workspace instead.
+ * Every invocation is appended to FAKE_AGENT_LOG (one JSON object: args,
+ * stdin, and `config`, the cli-config.json and mcp.json in CURSOR_CONFIG_DIR).
+ */
+
+import { spawn } from "node:child_process";
+import { appendFileSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+const args = process.argv.slice(2);
+const scenario = process.env.FAKE_AGENT_SCENARIO
+  ? JSON.parse(readFileSync(process.env.FAKE_AGENT_SCENARIO, "utf8"))
+  : {};
+
+/** Number of `--print` invocations logged so far. */
+function printCount() {
+  try {
+    return readFileSync(process.env.FAKE_AGENT_LOG, "utf8")
+      .split("\n")
+      .filter((line) => line && JSON.parse(line).args.includes("--print")).length;
+  } catch {
+    return 0;
+  }
+}
+
+function readJson(file) {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function log(stdin) {
+  if (process.env.FAKE_AGENT_LOG) {
+    const dir = process.env.CURSOR_CONFIG_DIR ?? "";
+    const config = { cli: readJson(join(dir, "cli-config.json")), mcp: readJson(join(dir, "mcp.json")) };
+    appendFileSync(process.env.FAKE_AGENT_LOG, `${JSON.stringify({ args, stdin, config })}\n`);
+  }
+}
+
+function reply(spec = {}) {
+  log();
+  if (spec.stdout) process.stdout.write(spec.stdout);
+  if (spec.stderr) process.stderr.write(spec.stderr);
+  if (spec.hang) setInterval(() => {}, 1000);
+  process.exitCode = spec.exitCode ?? 0;
+}
+
+/** Whether an `agent login` has finished (it is logged when it exits). */
+function loggedIn() {
+  try {
+    return readFileSync(process.env.FAKE_AGENT_LOG, "utf8")
+      .split("\n")
+      .some((line) => line && JSON.parse(line).args[0] === "login");
+  } catch {
+    return false;
+  }
+}
+
+/** Write files into the `--workspace` directory, like the agent's edit tools. */
+function writeFiles(files) {
+  const workspace = args[args.indexOf("--workspace") + 1];
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(workspace, file)), { recursive: true });
+    writeFileSync(join(workspace, file), content);
+  }
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function login(spec = {}) {
+  if (spec.stdout) process.stdout.write(spec.stdout);
+  if (spec.delayMs) await sleep(spec.delayMs);
+  log();
+  process.exitCode = spec.exitCode ?? 0;
+}
+
+async function print(spec = {}) {
+  let stdin = "";
+  if (!process.stdin.isTTY) {
+    for await (const chunk of process.stdin) stdin += chunk;
+  }
+  log(stdin);
+  if (spec.ignoreSigterm) process.on("SIGTERM", () => {});
+  if (spec.spawnChild) {
+    spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: ["ignore", "inherit", "inherit"] });
+  }
+  for (const line of spec.lines ?? []) {
+    if (spec.delayMs) await sleep(spec.delayMs);
+    if (typeof line === "object" && line.writeFiles) writeFiles(line.writeFiles);
+    else process.stdout.write(`${typeof line === "string" ? line : JSON.stringify(line)}\n`);
+  }
+  if (spec.stderr) process.stderr.write(spec.stderr);
+  if (spec.hang) {
+    setInterval(() => {}, 1000);
+    return;
+  }
+  process.exitCode = spec.exitCode ?? 0;
+}
+
+const command = args.find((a) => !a.startsWith("-") && a !== process.env.CURSOR_API_KEY);
+
+if (args.includes("--version")) reply({ stdout: `${scenario.version ?? "2026.02.13-abc"}\n` });
+else if (args.includes("--print")) {
+  const sequence = scenario.printSequence;
+  await print(sequence ? sequence[Math.min(printCount(), sequence.length - 1)] : scenario.print);
+}
+else if (command === "models") reply(scenario.models ?? { stderr: "no models scenario\n", exitCode: 1 });
+else if (command === "status") {
+  const loginDone = scenario.statusAfterLogin && loggedIn();
+  reply((loginDone ? scenario.statusAfterLogin : scenario.status) ?? { stdout: "Not logged in\n", exitCode: 1 });
+}
+else if (command === "login") await login(scenario.login);
+else if (command === "mcp") {
+  const sub = args[args.indexOf("mcp") + 1];
+  reply(scenario.mcp?.[sub] ?? { stderr: `fake agent: no mcp ${sub} scenario\n`, exitCode: 1 });
+}
+else reply({ stderr: `fake agent: unsupported arguments ${args.join(" ")}\n`, exitCode: 2 });
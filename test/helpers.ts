@@ -0,0 +1,151 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Api, AssistantMessageEvent, AssistantMessageEventStream, Model } from "@mariozechner/pi-ai";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+
+export const FAKE_AGENT = join(dirname(fileURLToPath(import.meta.url)), "fake-agent.mjs");
+
+/** Scenario understood by test/fake-agent.mjs. */
+export interface FakeAgentScenario {
+  version?: string;
+  models?: { stdout?: string; stderr?: string; exitCode?: number };
+  status?: { stdout?: string; stderr?: string; exitCode?: number; hang?: boolean };
+  /** `agent status` once an `agent login` has exited. */
+  statusAfterLogin?: { stdout?: string; stderr?: string; exitCode?: number };
+  login?: { stdout?: string; delayMs?: number; exitCode?: number };
+  /** `agent mcp <subcommand>`, keyed by subcommand. */
+  mcp?: Record<string, { stdout?: string; stderr?: string; exitCode?: number; hang?: boolean }>;
+  print?: FakePrintSpec;
+  /** The n-th `agent --print` call uses the n-th entry; the last one repeats. */
+  printSequence?: FakePrintSpec[];
+}
+
+export interface FakePrintSpec {
+  lines?: Array<Record<string, unknown> | string>;
+  delayMs?: number;
+  stderr?: string;
+  exitCode?: number;
+  hang?: boolean;
+  spawnChild?: boolean;
+  ignoreSigterm?: boolean;
+}
+
+export interface FakeAgentInvocation {
+  args: string[];
+  stdin?: string;
+  /** `cli-config.json` and `mcp.json` in the agent's CURSOR_CONFIG_DIR. */
+  config: { cli?: Record<string, unknown>; mcp?: Record<string, unknown> };
+}
+
+export interface FakeAgent {
+  /** Temp directory, also used as Pi's agent dir (caches, config files). */
+  dir: string;
+  /** Replace the scenario and clear the invocation log. */
+  setScenario(scenario: FakeAgentScenario): void;
+  invocations(): FakeAgentInvocation[];
+  restore(): void;
+}
+
+/**
+ * Point the provider at the fake agent. Sets CURSOR_AGENT_PATH and isolates
+ * Pi's agent directory; call `restore()` when done.
+ */
+export function installFakeAgent(scenario: FakeAgentScenario = {}): FakeAgent {
+  const dir = mkdtempSync(join(tmpdir(), "pi-cursor-test-"));
+  const scenarioFile = join(dir, "scenario.json");
+  const logFile = join(dir, "invocations.ndjson");
+  chmodSync(FAKE_AGENT, 0o755);
+
+  const saved = { ...process.env };
+  process.env["CURSOR_AGENT_PATH"] = FAKE_AGENT;
+  process.env["PI_CODING_AGENT_DIR"] = dir;
+  process.env["CURSOR_CONFIG_DIR"] = join(dir, "cursor");
+  process.env["FAKE_AGENT_SCENARIO"] = scenarioFile;
+  process.env["FAKE_AGENT_LOG"] = logFile;
+  delete process.env["CURSOR_API_KEY"];
+
+  const agent: FakeAgent = {
+    dir,
+    setScenario: (s) => {
+      writeFileSync(scenarioFile, JSON.stringify(s));
+      rmSync(logFile, { force: true });
+    },
+    invocations: () => {
+      try {
+        return readFileSync(logFile, "utf8")
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => JSON.parse(line) as FakeAgentInvocation);
+      } catch {
+        return [];
+      }
+    },
+    restore: () => {
+      for (const key of Object.keys(process.env)) if (!(key in saved)) delete process.env[key];
+      Object.assign(process.env, saved);
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+  agent.setScenario(scenario);
+  return agent;
+}
+
+/** A minimal ExtensionAPI that records what the extension registers. */
+export function createFakePi() {
+  const providers: Array<{ name: string; config: Parameters<ExtensionAPI["registerProvider"]>[1] }> = [];
+  const commands = new Map<string, Parameters<ExtensionAPI["registerCommand"]>[1]>();
+  const handlers = new Map<string, (...args: unknown[]) => unknown>();
+  const pi = {
+    registerProvider: (name: string, config: (typeof providers)[number]["config"]) => providers.push({ name, config }),
+    registerCommand: (name: string, options: Parameters<ExtensionAPI["registerCommand"]>[1]) =>
+      commands.set(name, options),
+    on: (event: string, handler: (...args: unknown[]) => unknown) => handlers.set(event, handler),
+  } as unknown as ExtensionAPI;
+  return { pi, providers, commands, handlers };
+}
+
+export function cursorModel(overrides: Partial<Model<Api>> = {}): Model<Api> {
+  return {
+    id: "auto",
+    name: "Auto (Cursor)",
+    api: "cursor-cli" as Api,
+    provider: "cursor",
+    baseUrl: "cli://cursor-agent",
+    reasoning: false,
+    input: ["text"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 200000,
+    maxTokens: 32768,
+    ...overrides,
+  };
+}
+
+export async function collect(stream: AssistantMessageEventStream): Promise<AssistantMessageEvent[]> {
+  const events: AssistantMessageEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+/** NDJSON helpers for fake `agent --print` output. */
+export const ndjson = {
+  assistant: (text: string) => ({
+    type: "assistant",
+    message: { role: "assistant", content: [{ type: "text", text }] },
+    session_id: "chat-1",
+  }),
+  toolCall: (subtype: "started" | "completed", key: string, payload: Record<string, unknown>) => ({
+    type: "tool_call",
+    subtype,
+    tool_call: { [key]: payload },
+    session_id: "chat-1",
+  }),
+  result: (subtype = "success", fields: Record<string, unknown> = {}) => ({
+    type: "result",
+    subtype,
+    duration_ms: 1,
+    session_id: "chat-1",
+    ...fields,
+  }),
+};
@@ -0,0 +1,123 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Context } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { applyChanges, createIsolatedWorkspace, listChanges, removeIsolatedWorkspace } from "../src/isolation.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const dirs: string[] = [];
+
+beforeAll(() => {
+  agent = installFakeAgent();
+});
+
+afterAll(() => agent.restore());
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd, encoding: "utf8" });
+
+/** A repository with a.txt and b.txt committed, a.txt edited and c.txt untracked. */
+function project(withGit = true): string {
+  const dir = mkdtempSync(join(tmpdir(), "pi-cursor-project-"));
+  dirs.push(dir);
+  writeFileSync(join(dir, "a.txt"), "one\n");
+  writeFileSync(join(dir, "b.txt"), "two\n");
+  if (withGit) {
+    git(dir, "init", "--quiet");
+    git(dir, "add", ".");
+    git(dir, "commit", "--quiet", "-m", "init");
+  }
+  writeFileSync(join(dir, "a.txt"), "one, edited\n");
+  writeFileSync(join(dir, "c.txt"), "three\n");
+  return dir;
+}
+
+describe("isolated workspaces", () => {
+  it("starts a worktree from the working tree and applies changes back, skipping conflicts", async () => {
+    const dir = project();
+    const ws = await createIsolatedWorkspace(dir);
+    expect(ws.kind).toBe("worktree");
+    expect(readFileSync(join(ws.path, "a.txt"), "utf8")).toBe("one, edited\n");
+    expect(readFileSync(join(ws.path, "c.txt"), "utf8")).toBe("three\n");
+
+    writeFileSync(join(ws.path, "a.txt"), "one, by the agent\n");
+    writeFileSync(join(ws.path, "c.txt"), "three, by the agent\n");
+    rmSync(join(ws.path, "b.txt"));
+    writeFileSync(join(ws.path, "d.txt"), "four\n");
+    // The user keeps working on c.txt meanwhile.
+    writeFileSync(join(dir, "c.txt"), "three, by the user\n");
+
+    const changes = await listChanges(ws);
+    expect(changes).toEqual([
+      { path: "a.txt", status: "modified" },
+      { path: "b.txt", status: "deleted" },
+      { path: "c.txt", status: "modified" },
+      { path: "d.txt", status: "added" },
+    ]);
+
+    expect(await applyChanges(ws, changes)).toEqual({ applied: ["a.txt", "b.txt", "d.txt"], conflicts: ["c.txt"] });
+    expect(readFileSync(join(dir, "a.txt"), "utf8")).toBe("one, by the agent\n");
+    expect(existsSync(join(dir, "b.txt"))).toBe(false);
+    expect(readFileSync(join(dir, "c.txt"), "utf8")).toBe("three, by the user\n");
+    expect(await listChanges(ws)).toEqual([{ path: "c.txt", status: "modified" }]);
+
+    await removeIsolatedWorkspace(ws);
+    expect(existsSync(ws.root)).toBe(false);
+    expect(git(dir, "worktree", "list").trim().split("\n")).toHaveLength(1);
+  });
+
+  it("copies the tree when it is not a git repository", async () => {
+    const dir = project(false);
+    const ws = await createIsolatedWorkspace(dir);
+    expect(ws.kind).toBe("copy");
+
+    writeFileSync(join(ws.path, "b.txt"), "two, by the agent\n");
+    await applyChanges(ws, await listChanges(ws));
+
+    expect(readFileSync(join(dir, "b.txt"), "utf8")).toBe("two, by the agent\n");
+    await removeIsolatedWorkspace(ws);
+  });
+
+  it("runs the agent in the isolated workspace and applies its changes after review", async () => {
+    const dir = project();
+    process.env["CURSOR_WORKSPACE"] = dir;
+    process.env["CURSOR_ISOLATION"] = "turn";
+    const { pi, handlers } = createFakePi();
+    await extension(pi);
+    agent.setScenario({
+      print: { lines: [{ writeFiles: { "src/new.ts": "export {};\n" } }, ndjson.assistant("Done.")] },
+    });
+
+    const context: Context = { messages: [{ role: "user", content: "add a file", timestamp: 0 }] };
+    await collect(streamCursorCli(cursorModel(), context, {}));
+
+    const args = agent.invocations()[0]?.args ?? [];
+    const workspace = args[args.indexOf("--workspace") + 1];
+    expect(workspace).not.toBe(dir);
+    expect(existsSync(join(dir, "src/new.ts"))).toBe(false);
+
+    const notes: string[] = [];
+    const ctx = {
+      hasUI: true,
+      ui: { notify: (text: string) => notes.push(text), select: async () => "Apply all" },
+    } as unknown as ExtensionContext;
+    await handlers.get("agent_end")?.({ type: "agent_end", messages: [] }, ctx);
+
+    expect(notes[0]).toContain("A src/new.ts");
+    expect(notes.at(-1)).toBe("Applied Cursor's changes to 1 of 1 file(s).");
+    expect(readFileSync(join(dir, "src/new.ts"), "utf8")).toBe("export {};\n");
+    expect(existsSync(workspace ?? "")).toBe(false);
+
+    delete process.env["CURSOR_WORKSPACE"];
+    delete process.env["CURSOR_ISOLATION"];
+  });
+});
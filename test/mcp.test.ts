@@ -0,0 +1,149 @@
+import { spawn } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import type { Context, Tool } from "@mariozechner/pi-ai";
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { runAgentMcp } from "../src/mcp-admin.js";
+import { PI_TOOLS_SERVER, startPiToolsServer } from "../src/mcp-server.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+let configDir: string;
+const fake = createFakePi();
+const notes: string[] = [];
+const ctx = { cwd: tmpdir(), hasUI: false, ui: { notify: (text: string) => notes.push(text) } } as unknown as ExtensionCommandContext;
+const mcp = (args: string) => fake.commands.get("cursor-mcp")?.handler(args, ctx);
+
+beforeAll(async () => {
+  agent = installFakeAgent({
+    mcp: {
+      list: { stdout: "pi-auto: not loaded (needs approval)\ndocs: ready\n" },
+      enable: { stdout: "✓ Enabled and approved MCP server: pi-auto\n" },
+      "list-tools": { stdout: "Tools for pi-auto (1):\n- pi_get_usage (period)\n" },
+    },
+  });
+  configDir = mkdtempSync(join(tmpdir(), "pi-cursor-mcp-"));
+  process.env["CURSOR_CONFIG_DIR"] = configDir;
+  writeFileSync(join(configDir, "mcp.json"), JSON.stringify({ mcpServers: { "pi-auto": { command: "pi-auto-mcp" }, local: { command: "x" } } }));
+  writeFileSync(
+    join(configDir, "cli-config.json"),
+    JSON.stringify({ version: 1, editor: { vimMode: true }, permissions: { allow: ["Shell(ls)", "Mcp(docs:*)"], deny: ["Shell(rm)"] } }),
+  );
+  await extension(fake.pi);
+});
+
+afterAll(() => {
+  rmSync(configDir, { recursive: true, force: true });
+  agent.restore();
+});
+
+const cliConfig = () => JSON.parse(readFileSync(join(configDir, "cli-config.json"), "utf8"));
+
+describe("/cursor-mcp", () => {
+  it("lists servers from the CLI and mcp.json with their allow state", async () => {
+    await mcp("");
+    expect(notes.at(-1)).toBe(
+      [
+        "Cursor MCP servers (3):",
+        "  docs     ready · tools allowed",
+        "  local    not listed by `agent mcp list` · tools not allowed",
+        "  pi-auto  not loaded (needs approval) · tools not allowed",
+      ].join("\n"),
+    );
+  });
+
+  it("runs agent mcp for enable and tools", async () => {
+    await mcp("approve pi-auto");
+    expect(notes.at(-1)).toBe("✓ Enabled and approved MCP server: pi-auto");
+    await mcp("tools pi-auto");
+    expect(notes.at(-1)).toContain("- pi_get_usage (period)");
+    expect(agent.invocations().map((i) => i.args.join(" "))).toEqual(
+      expect.arrayContaining(["mcp enable pi-auto", "mcp list-tools pi-auto"]),
+    );
+  });
+
+  it("adds and removes allow rules without touching other settings", async () => {
+    await mcp("allow pi-auto");
+    expect(notes.at(-1)).toBe("Allowed Mcp(pi-auto:*) in cli-config.json.");
+    expect(cliConfig()).toEqual({
+      version: 1,
+      editor: { vimMode: true },
+      permissions: { allow: ["Shell(ls)", "Mcp(docs:*)", "Mcp(pi-auto:*)"], deny: ["Shell(rm)"] },
+    });
+
+    await mcp("allow pi-auto");
+    expect(notes.at(-1)).toBe("Mcp(pi-auto:*) is already allowed.");
+
+    await mcp("revoke docs");
+    expect(cliConfig().permissions).toEqual({ allow: ["Shell(ls)", "Mcp(pi-auto:*)"], deny: ["Shell(rm)"] });
+
+    await mcp("allow bad:name");
+    expect(notes.at(-1)).toContain("needs a server name");
+  });
+
+  it("gives up on an `agent mcp` command that does not answer", async () => {
+    agent.setScenario({ mcp: { "list-tools": { hang: true } } });
+    await expect(runAgentMcp(process.env["CURSOR_AGENT_PATH"] ?? "", ["list-tools", "docs"], process.env, 300)).rejects.toThrow(
+      "`agent mcp list-tools docs` did not answer within 0.3s",
+    );
+  });
+});
+
+const usageTool = {
+  name: "get_usage",
+  description: "Usage for a period",
+  parameters: { type: "object", properties: { period: { type: "string" } } },
+} as unknown as Tool;
+
+describe("pi-tools MCP server", () => {
+  it("answers the agent's requests through the stdio bridge", async () => {
+    const calls: Array<[string, Record<string, unknown>]> = [];
+    const server = await startPiToolsServer([usageTool], async (name, args) => {
+      calls.push([name, args]);
+      return { content: [{ type: "text", text: "42 requests" }] };
+    });
+    const bridge = spawn(server.config.command, server.config.args ?? [], { stdio: ["pipe", "pipe", "inherit"] });
+    const lines = createInterface({ input: bridge.stdout });
+    const responses = lines[Symbol.asyncIterator]();
+    const request = async (id: number, method: string, params: Record<string, unknown> = {}) => {
+      bridge.stdin.write(`${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`);
+      const { value } = await responses.next();
+      return JSON.parse(value as string);
+    };
+
+    try {
+      expect((await request(1, "initialize", { protocolVersion: "2025-03-26" })).result).toMatchObject({
+        protocolVersion: "2025-03-26",
+        serverInfo: { name: PI_TOOLS_SERVER },
+      });
+      expect((await request(2, "tools/list")).result.tools).toEqual([
+        { name: "get_usage", description: "Usage for a period", inputSchema: usageTool.parameters },
+      ]);
+      expect((await request(3, "tools/call", { name: "get_usage", arguments: { period: "week" } })).result).toEqual({
+        content: [{ type: "text", text: "42 requests" }],
+      });
+      expect(calls).toEqual([["get_usage", { period: "week" }]]);
+      expect((await request(4, "tools/call", { name: "nope" })).result).toMatchObject({ isError: true });
+      expect((await request(5, "resources/list")).error).toMatchObject({ code: -32601 });
+    } finally {
+      bridge.stdin.end();
+      await new Promise((resolve) => bridge.once("exit", resolve));
+      await server.close();
+    }
+  });
+
+  it("is approved for the turn without approving the user's other servers", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("Hi."), ndjson.result()] } });
+    const context: Context = { messages: [{ role: "user", content: "hi", timestamp: 0 }], tools: [usageTool] };
+    await collect(streamCursorCli(cursorModel(), context, {}));
+
+    const run = agent.invocations().find((i) => i.args.includes("--print"));
+    expect(run?.args).not.toContain("--approve-mcps");
+    expect(Object.keys(run?.config.mcp?.mcpServers ?? {})).toEqual(["pi-auto", "local", PI_TOOLS_SERVER]);
+    expect(run?.config.cli?.permissions).toMatchObject({ allow: expect.arrayContaining([`Mcp(${PI_TOOLS_SERVER}:*)`]) });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { parseAgentModelsOutput, toCanonicalId, toCursorId } from "../index.js";
+import { deriveModelFamilies } from "../src/model-variants.js";
+
+describe("parseAgentModelsOutput", () => {
+  it("parses ids and names, ignoring the header, tip and markers", () => {
+    const output = [
+      "Available models",
+      "",
+      "auto - Auto",
+      "opus-4.6-thinking - Claude 4.6 Opus (Thinking)  (default)",
+      "sonnet-4.6 - Claude 4.6 Sonnet  (current)",
+      "",
+      "Tip: use --model <id> to switch",
+    ].join("\n");
+
+    expect(parseAgentModelsOutput(output).map((m) => [m.id, m.name])).toEqual([
+      ["auto", "Auto"],
+      ["opus-4.6-thinking", "Claude 4.6 Opus (Thinking)"],
+      ["sonnet-4.6", "Claude 4.6 Sonnet"],
+    ]);
+  });
+
+  it("takes attributes from the static table and infers them for unknown models", () => {
+    const [known, unknown, plain] = parseAgentModelsOutput(
+      "gemini-3-pro - Gemini 3 Pro\nnew-model-high - New Model High\nnew-model - New Model",
+    );
+    expect(known).toMatchObject({ reasoning: false, contextWindow: 1000000, maxTokens: 65536 });
+    expect(unknown).toMatchObject({ reasoning: true, contextWindow: 200000, maxTokens: 32768 });
+    expect(plain?.reasoning).toBe(false);
+  });
+
+  it("returns nothing for output without model lines", () => {
+    expect(parseAgentModelsOutput("No models available for this account.\n")).toEqual([]);
+  });
+});
+
+describe("canonical model ids", () => {
+  it("maps default CLI ids to canonical ids and hides variants", () => {
+    expect(toCanonicalId("sonnet-4.6")).toBe("claude-sonnet-4-6");
+    expect(toCanonicalId("sonnet-4.6-thinking")).toBeNull();
+    expect(toCanonicalId("composer-1")).toBe("composer-1");
+  });
+
+  it("resolves reasoning levels to CLI variants", () => {
+    expect(toCursorId("claude-sonnet-4-6")).toBe("sonnet-4.6");
+    expect(toCursorId("claude-sonnet-4-6", "high")).toBe("sonnet-4.6-thinking");
+    expect(toCursorId("gpt-5.3-codex", "low")).toBe("gpt-5.3-codex-low");
+    expect(toCursorId("gpt-5.3-codex", "medium")).toBe("gpt-5.3-codex");
+    expect(toCursorId("gpt-5.2", "xhigh")).toBe("gpt-5.2-high");
+  });
+
+  it("passes unmapped ids through", () => {
+    expect(toCursorId("auto", "high")).toBe("auto");
+    expect(toCursorId("sonnet-4.6-thinking")).toBe("sonnet-4.6-thinking");
+  });
+});
+
+describe("deriveModelFamilies", () => {
+  it("groups ids by base id and maps reasoning levels to their variants", () => {
+    const families = deriveModelFamilies([
+      "opus-5",
+      "opus-5-thinking",
+      "gpt-6-codex",
+      "gpt-6-codex-low",
+      "gpt-6-codex-high",
+      "gpt-6-codex-fast",
+      "gpt-6-codex-xhigh-fast",
+      "solo-high",
+      "composer-2",
+    ]);
+    expect(families).toEqual({
+      "opus-5": {
+        default: "opus-5",
+        minimal: "opus-5-thinking",
+        low: "opus-5-thinking",
+        medium: "opus-5-thinking",
+        high: "opus-5-thinking",
+        xhigh: "opus-5-thinking",
+      },
+      "gpt-6-codex": {
+        default: "gpt-6-codex",
+        minimal: "gpt-6-codex-low",
+        low: "gpt-6-codex-low",
+        high: "gpt-6-codex-high",
+        xhigh: "gpt-6-codex-high",
+      },
+      "gpt-6-codex-fast": { default: "gpt-6-codex-fast", xhigh: "gpt-6-codex-xhigh-fast" },
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import type { Context, Tool } from "@mariozechner/pi-ai";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { parseHelpModes, parseModelMode } from "../src/modes.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+const context: Context = { messages: [{ role: "user", content: "How should we add caching?", timestamp: 0 }] };
+
+describe("agent modes", () => {
+  it("registers ask and plan variants with the mode in the name", () => {
+    const models = (fake.providers[0]?.config.models ?? []).filter((m) => m.id.startsWith("auto"));
+    expect(models.map((m) => [m.id, m.name])).toEqual([
+      ["auto", "Auto (Cursor)"],
+      ["auto:ask", "Auto (Cursor, ask)"],
+      ["auto:plan", "Auto (Cursor, plan)"],
+    ]);
+    expect(parseModelMode("sonnet-4.6:plan")).toEqual({ modelId: "sonnet-4.6", mode: "plan" });
+    expect(parseModelMode("sonnet-4.6")).toEqual({ modelId: "sonnet-4.6", mode: "agent" });
+  });
+
+  it("reads the supported modes from `agent --help`", () => {
+    const help = "Options:\n  --mode <mode>   Start in the given mode\n                  (choices: \"plan\", \"ask\")\n  --print";
+    expect(parseHelpModes(help)).toEqual(new Set(["ask", "plan"]));
+    expect(parseHelpModes("Options:\n  --print  Print responses")).toEqual(new Set());
+  });
+
+  it("falls back to prompt instructions when the CLI has no --mode", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("1. Add a cache."), ndjson.result()] } });
+
+    const events = await collect(streamCursorCli(cursorModel({ id: "auto:plan" }), context, {}));
+
+    const run = agent.invocations().find((i) => i.args.includes("--print"));
+    expect(run?.args).not.toContain("--mode");
+    expect(run?.args[run.args.indexOf("--model") + 1]).toBe("auto");
+    expect(run?.stdin?.startsWith("[Mode: plan] Do not implement anything yet.")).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("does not expose Pi's extension tools to a read-only mode", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("1. Add a cache."), ndjson.result()] } });
+    const deploy = { name: "deploy", description: "Deploy the app", parameters: { type: "object" } } as unknown as Tool;
+
+    await collect(streamCursorCli(cursorModel({ id: "auto:ask" }), { ...context, tools: [deploy] }, {}));
+
+    const run = agent.invocations().find((i) => i.args.includes("--print"));
+    expect(run?.config.mcp?.mcpServers).not.toHaveProperty("pi-tools");
+    expect(run?.config.cli?.permissions).toEqual({ allow: ["Read(**)"], deny: ["Write(**)", "Shell(*)"] });
+  });
+});
@@ -0,0 +1,116 @@
+import type { Context } from "@mariozechner/pi-ai";
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { CONFIG_FILE, DEFAULT_CONFIG, loadProviderConfig } from "../src/config.js";
+import { resolveProfiles } from "../src/profiles.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+const notes: string[] = [];
+const ctx = { hasUI: false, ui: { notify: (text: string) => notes.push(text) } } as unknown as ExtensionCommandContext;
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  process.env["CURSOR_API_KEY"] = "env-key";
+  process.env["CURSOR_WORK_API_KEY"] = "work-key";
+  process.env["CURSOR_PROFILES"] = JSON.stringify({
+    work: { apiKeyEnv: "CURSOR_WORK_API_KEY" },
+    personal: { configDir: "/tmp/cursor-personal", models: ["auto", "sonnet-4.6"] },
+  });
+  process.env["CURSOR_PROFILE"] = "work";
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+const context: Context = { messages: [{ role: "user", content: "hi", timestamp: 0 }] };
+
+describe("account profiles", () => {
+  it("gives each profile its own key or config directory", () => {
+    const errors: string[] = [];
+    const config = {
+      ...DEFAULT_CONFIG,
+      profiles: { work: { apiKeyEnv: "CURSOR_WORK_API_KEY" }, home: { apiKeyEnv: "UNSET_KEY", agentPath: "/opt/agent" } },
+      profile: "nope",
+    };
+    const [main, work, home] = resolveProfiles(config, errors);
+    expect(main).toMatchObject({ provider: "cursor", agentPath: "agent" });
+    expect(main?.name).toBeUndefined();
+    expect(main?.env["CURSOR_API_KEY"]).toBe("env-key");
+    expect(work).toMatchObject({ name: "work", provider: "cursor-work" });
+    expect(work?.env["CURSOR_API_KEY"]).toBe("work-key");
+    expect(home).toMatchObject({ provider: "cursor-home", agentPath: "/opt/agent" });
+    expect(home?.env["CURSOR_API_KEY"]).toBeUndefined();
+    expect(errors).toEqual([
+      "profile home: UNSET_KEY is not set",
+      'profile "nope" is not defined in profiles (work, home)',
+    ]);
+  });
+
+  it("registers a provider per profile and runs each with its account", async () => {
+    expect(fake.providers.map((p) => p.name)).toEqual(["cursor", "cursor-work", "cursor-personal"]);
+    const personal = fake.providers.find((p) => p.name === "cursor-personal");
+    // CLI ids select the model's canonical id.
+    expect(personal?.config.models?.map((m) => m.id)).toEqual([
+      "auto",
+      "auto:ask",
+      "auto:plan",
+      "claude-sonnet-4-6",
+      "claude-sonnet-4-6:ask",
+      "claude-sonnet-4-6:plan",
+    ]);
+
+    agent.setScenario({ print: { lines: [ndjson.assistant("hello"), ndjson.result()] } });
+    await collect(streamCursorCli(cursorModel(), context, {}));
+    await collect(streamCursorCli(cursorModel({ provider: "cursor-personal" }), context, {}));
+    const keys = agent
+      .invocations()
+      .filter((i) => i.args.includes("--print"))
+      .map((i) => (i.args[0] === "--api-key" ? i.args[1] : undefined));
+    // `cursor` uses the project's profile (work); personal has no key.
+    expect(keys).toEqual(["work-key", undefined]);
+  });
+
+  it("names the profile in use in /cursor-status", async () => {
+    agent.setScenario({ status: { stdout: "✓ Logged in as dev@corp.example\n" } });
+    await fake.commands.get("cursor-status")?.handler("", ctx);
+    expect(notes.at(-1)).toBe(
+      "Profile: work — provider cursor, cursor-work\nLogged in to Cursor as dev@corp.example (API key).",
+    );
+    await fake.commands.get("cursor-status")?.handler("nope", ctx);
+    expect(notes.at(-1)).toBe('Unknown Cursor profile "nope". Profiles: work, personal');
+  });
+});
+
+describe("config sources", () => {
+  it("layers the project file over the global file and env over both", async () => {
+    const project = mkdtempSync(join(tmpdir(), "cursor-project-"));
+    const globalFile = join(agent.dir, CONFIG_FILE);
+    const projectFile = join(project, ".pi", CONFIG_FILE);
+    mkdirSync(join(project, ".pi"));
+    writeFileSync(globalFile, JSON.stringify({ turnTimeoutMs: 1000, idleTimeoutMs: 2000, killGraceMs: 3000 }));
+    writeFileSync(projectFile, JSON.stringify({ turnTimeoutMs: 4000, idleTimeoutMs: 5000, killGraceMs: -1 }));
+    try {
+      const env = { CURSOR_TURN_TIMEOUT_MS: "6000", CURSOR_IDLE_TIMEOUT_MS: "soon" };
+      const { config, sources, files, errors } = await loadProviderConfig(project, env);
+      expect(files).toEqual([globalFile, projectFile]);
+      expect(config).toMatchObject({ turnTimeoutMs: 6000, idleTimeoutMs: 5000, killGraceMs: 3000 });
+      expect(sources).toMatchObject({
+        turnTimeoutMs: "env CURSOR_TURN_TIMEOUT_MS",
+        idleTimeoutMs: projectFile,
+        killGraceMs: globalFile,
+        discoveryTimeoutMs: "default",
+      });
+      // Invalid values are reported and leave the lower layer in place.
+      expect(errors).toEqual([`${projectFile}: killGraceMs: must be an integer ≥ 0`, "CURSOR_IDLE_TIMEOUT_MS: must be an integer ≥ 0"]);
+    } finally {
+      rmSync(globalFile, { force: true });
+      rmSync(project, { recursive: true, force: true });
+    }
+  });
+});
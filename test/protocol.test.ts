@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDiagnostic,
+  type CursorResultEvent,
+  formatDiagnostics,
+  type ProtocolDiagnostics,
+  parseLine,
+  resultErrorMessage,
+  resultStopReason,
+} from "../src/protocol.js";
+
+const result = (fields: Partial<CursorResultEvent>): CursorResultEvent => ({ type: "result", subtype: "success", ...fields });
+
+describe("parseLine", () => {
+  it("accepts known events and normalizes tool calls", () => {
+    const parsed = parseLine(
+      JSON.stringify({ type: "tool_call", subtype: "started", tool_call: { readToolCall: {} }, session_id: "c1" }),
+    );
+    expect(parsed).toEqual({
+      kind: "event",
+      event: { type: "tool_call", subtype: "started", toolKey: "readToolCall", payload: { args: {} }, session_id: "c1" },
+    });
+    expect(parseLine("   ")).toEqual({ kind: "empty" });
+  });
+
+  it("reports invalid JSON, unknown types and malformed events", () => {
+    expect(parseLine("Update available")).toEqual({ kind: "diagnostic", reason: "invalid JSON: Update available" });
+    expect(parseLine('{"type":"toString"}')).toMatchObject({ reason: expect.stringContaining('unknown event type "toString"') });
+    expect(parseLine('{"type":"assistant","message":{}}')).toMatchObject({
+      reason: expect.stringContaining("assistant event: message.content is not an array"),
+    });
+    expect(parseLine('{"type":"result","subtype":"success","session_id":7}')).toMatchObject({
+      reason: "result event: session_id is not a string",
+    });
+  });
+});
+
+describe("result events", () => {
+  it("maps subtypes to stop reasons", () => {
+    expect(resultStopReason(result({}))).toBe("stop");
+    expect(resultStopReason(result({ is_error: true }))).toBe("error");
+    expect(resultStopReason(result({ subtype: "error_max_turns" }))).toBe("length");
+    expect(resultStopReason(result({ subtype: "error_during_execution" }))).toBe("error");
+  });
+
+  it("describes failures", () => {
+    expect(resultErrorMessage(result({ is_error: true, result: " quota exceeded \n" }))).toBe(
+      "Cursor CLI reported an error: quota exceeded",
+    );
+    expect(resultErrorMessage(result({ subtype: "error_during_execution" }))).toBe(
+      'Cursor CLI reported "error_during_execution"',
+    );
+  });
+});
+
+describe("diagnostics", () => {
+  it("keeps the first entries and counts the rest", () => {
+    const diagnostics: ProtocolDiagnostics = { entries: [], dropped: 0 };
+    expect(formatDiagnostics(diagnostics)).toBe("");
+    for (let i = 1; i <= 22; i++) addDiagnostic(diagnostics, i, "invalid JSON: x");
+
+    const text = formatDiagnostics(diagnostics);
+    expect(text.split("\n")[0]).toBe("Unexpected CLI output (22):");
+    expect(text).toContain("  line 20: invalid JSON: x");
+    expect(text).not.toContain("line 21");
+    expect(text.endsWith("  … and 2 more")).toBe(true);
+  });
+});
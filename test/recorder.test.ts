@@ -0,0 +1,70 @@
+import { readFileSync } from "node:fs";
+import type { AssistantMessage, AssistantMessageEvent, Context } from "@mariozechner/pi-ai";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { replayRecordedRun, streamCursorCli } from "../index.js";
+import { flushRecordings, readRecording, recordingFile } from "../src/recorder.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  process.env["CURSOR_RECORD"] = "1";
+  process.env["CURSOR_API_KEY"] = "secret-key";
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+const context: Context = { messages: [{ role: "user", content: "hello", timestamp: 0 }] };
+
+function finalMessage(events: AssistantMessageEvent[]): AssistantMessage {
+  const last = events.at(-1);
+  if (last?.type === "done") return last.message;
+  if (last?.type === "error") return last.error;
+  throw new Error(`stream ended with ${last?.type}`);
+}
+
+describe("protocol recording", () => {
+  it("records a turn and replays it to the same result", async () => {
+    const args = { command: "ls" };
+    agent.setScenario({
+      print: {
+        lines: [
+          ndjson.toolCall("started", "shellToolCall", { args }),
+          "garbage",
+          ndjson.assistant("Listed."),
+          ndjson.result(),
+        ],
+        stderr: "warning: slow\n",
+      },
+    });
+
+    const live = finalMessage(await collect(streamCursorCli(cursorModel(), context, { sessionId: "s1" })));
+    await flushRecordings();
+
+    const file = recordingFile("s1");
+    expect(readFileSync(file, "utf8")).not.toContain("secret-key");
+    const runs = await readRecording(file);
+    expect(runs).toHaveLength(1);
+    const [run] = runs;
+    expect(run?.info).toMatchObject({ piSessionId: "s1", model: "auto", transport: "stdin" });
+    expect(run?.info.prompt).toContain("<user>\nhello\n</user>");
+    expect(run?.info.args.slice(0, 2)).toEqual(["--api-key", "<redacted>"]);
+    expect(run?.stdout.map((l) => l.line)[1]).toBe("garbage");
+    expect(run?.stderr).toBe("warning: slow\n");
+    expect(run?.exit).toMatchObject({ code: 0, signal: null });
+
+    const replayed = finalMessage(await replayRecordedRun(run as NonNullable<typeof run>));
+    expect(replayed.stopReason).toBe(live.stopReason);
+    expect(replayed.content).toEqual(live.content);
+
+    // A replay is not reported as the last run.
+    const notes: string[] = [];
+    const ctx = { ui: { notify: (text: string) => notes.push(text) } } as never;
+    await replayRecordedRun({ ...(run as NonNullable<typeof run>), exit: { t: 0, code: 3, signal: null } });
+    await fake.commands.get("cursor-debug")?.handler("", ctx);
+    expect(notes[0]).toContain("Exit code: 0");
+  });
+});
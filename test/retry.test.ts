@@ -0,0 +1,96 @@
+import type { AssistantMessage, Context } from "@mariozechner/pi-ai";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { classifyFailure, fallbackChain, retryDelayMs } from "../src/retry.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+describe("classifyFailure", () => {
+  it("separates transient, unavailable and fatal failures", () => {
+    expect(classifyFailure("Error: 429 Too Many Requests")).toEqual({ kind: "transient", reason: "rate limited" });
+    expect(classifyFailure("request failed: ECONNRESET")).toEqual({ kind: "transient", reason: "network error" });
+    expect(classifyFailure("", "Model is overloaded, try again")).toMatchObject({ kind: "transient" });
+    expect(classifyFailure("Model opus-4.6 is not available on your plan")).toEqual({
+      kind: "unavailable",
+      reason: "model not available",
+    });
+    expect(classifyFailure("You've hit your usage limit")).toMatchObject({ kind: "unavailable" });
+    expect(classifyFailure("Error: not authenticated")).toEqual({ kind: "fatal", reason: "error" });
+  });
+
+  it("computes capped exponential delays and fallback chains", () => {
+    expect([0, 1, 2].map((n) => retryDelayMs(n, 1000))).toEqual([1000, 2000, 4000]);
+    expect(retryDelayMs(10, 1000)).toBe(30_000);
+    const fallbacks = { "opus-4.6": ["sonnet-4.6", "opus-4.6", "auto", "auto"], "*": ["auto"] };
+    expect(fallbackChain(["opus-4.6"], fallbacks)).toEqual(["sonnet-4.6", "auto"]);
+    expect(fallbackChain(["claude-opus-4-6", "opus-4.6"], fallbacks)).toEqual(["sonnet-4.6", "auto"]);
+    expect(fallbackChain(["gpt-5.2"], fallbacks)).toEqual(["auto"]);
+    expect(fallbackChain(["auto"], fallbacks)).toEqual([]);
+  });
+});
+
+describe("streamCursorCli retries", () => {
+  let agent: FakeAgent;
+
+  beforeAll(async () => {
+    agent = installFakeAgent();
+    process.env["CURSOR_RETRY_BASE_DELAY_MS"] = "10";
+    process.env["CURSOR_FALLBACK_MODELS"] = "opus-4.6=sonnet-4.6,auto";
+    await extension(createFakePi().pi);
+  });
+
+  afterAll(() => agent.restore());
+
+  const context: Context = { messages: [{ role: "user", content: "hello", timestamp: 0 }] };
+  const ok = { lines: [ndjson.assistant("Done."), ndjson.result()] };
+  const models = () =>
+    agent
+      .invocations()
+      .filter((i) => i.args.includes("--print"))
+      .map((i) => i.args[i.args.indexOf("--model") + 1]);
+
+  async function run(id: string): Promise<AssistantMessage> {
+    const last = (await collect(streamCursorCli(cursorModel({ id }), context, {}))).at(-1);
+    if (last?.type === "done") return last.message;
+    if (last?.type === "error") return last.error;
+    throw new Error(`stream ended with ${last?.type}`);
+  }
+
+  it("retries transient failures on the same model", async () => {
+    agent.setScenario({ printSequence: [{ stderr: "429 Too Many Requests\n", exitCode: 1 }, ok] });
+
+    const message = await run("auto");
+
+    expect(message.stopReason).toBe("stop");
+    expect(message.content).toEqual([{ type: "text", text: "Done." }]);
+    expect(models()).toEqual(["auto", "auto"]);
+  });
+
+  it("walks the fallback chain and records the model used", async () => {
+    const unavailable = { stderr: "Model not available on your plan\n", exitCode: 1 };
+    agent.setScenario({ printSequence: [unavailable, unavailable, ok] });
+
+    const message = await run("claude-opus-4-6");
+
+    expect(models()).toEqual(["opus-4.6", "sonnet-4.6", "auto"]);
+    expect(message.model).toBe("auto");
+    expect(message.content).toEqual([
+      {
+        type: "text",
+        text:
+          "↪ [Fallback] claude-opus-4-6: model not available — using sonnet-4.6\n\n" +
+          "↪ [Fallback] sonnet-4.6: model not available — using auto\n\nDone.",
+      },
+    ]);
+  });
+
+  it("does not retry once output was streamed", async () => {
+    agent.setScenario({
+      printSequence: [{ lines: [ndjson.assistant("Partial")], stderr: "ECONNRESET\n", exitCode: 1 }, ok],
+    });
+
+    const message = await run("auto");
+
+    expect(message.stopReason).toBe("error");
+    expect(models()).toEqual(["auto"]);
+  });
+});
@@ -0,0 +1,59 @@
+import type { Context } from "@mariozechner/pi-ai";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { formatStatus } from "../src/status.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+const statuses: Array<string | undefined> = [];
+const ctx = {
+  hasUI: false,
+  ui: { notify: () => {}, setStatus: (_key: string, text: string | undefined) => statuses.push(text) },
+} as unknown as ExtensionContext;
+
+beforeAll(async () => {
+  agent = installFakeAgent({ status: { stdout: "✓ Logged in as dev@example.com\n" } });
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+const context: Context = { messages: [{ role: "user", content: "read it", timestamp: 0 }] };
+
+describe("status line", () => {
+  it("formats account, model and turn progress", () => {
+    const auth = { loggedIn: true, email: "dev@example.com", raw: "" };
+    expect(formatStatus({ auth, model: "sonnet-4.6-thinking", running: true, tool: "Read src/a.ts" })).toBe(
+      "Cursor: dev@example.com · sonnet-4.6-thinking · running: Read src/a.ts",
+    );
+    expect(formatStatus({ model: "auto", running: false, last: { ttft: 1234, duration: 8400 } })).toBe(
+      "Cursor: auto · last turn 1.2s to first token, 8.4s total",
+    );
+    expect(formatStatus({ running: false })).toBe("Cursor: idle");
+  });
+
+  it("follows the session's auth state and the running turn", async () => {
+    await fake.handlers.get("session_start")?.({ type: "session_start" }, ctx);
+    await vi.waitFor(() => expect(statuses.at(-1)).toBe("Cursor: dev@example.com"));
+
+    agent.setScenario({
+      print: {
+        lines: [
+          ndjson.toolCall("started", "readToolCall", { args: { path: "src/a.ts" } }),
+          ndjson.toolCall("completed", "readToolCall", { args: { path: "src/a.ts" }, result: { success: { content: "x" } } }),
+          ndjson.assistant("Done."),
+          ndjson.result(),
+        ],
+      },
+    });
+    await collect(streamCursorCli(cursorModel(), context, {}));
+
+    const run = agent.invocations().find((i) => i.args.includes("--print"));
+    const cliModel = run?.args[run.args.indexOf("--model") + 1];
+    expect(statuses).toContain(`Cursor: dev@example.com · ${cliModel} · running`);
+    expect(statuses).toContain(`Cursor: dev@example.com · ${cliModel} · running: Read src/a.ts`);
+    expect(statuses.at(-1)).toMatch(new RegExp(`^Cursor: dev@example.com · ${cliModel} · last turn [\\d.]+s to first token, [\\d.]+s total$`));
+  });
+});
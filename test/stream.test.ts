@@ -0,0 +1,368 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AssistantMessage, Context } from "@mariozechner/pi-ai";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import extension, { streamCursorCli } from "../index.js";
+import { setPermissionProfile } from "../src/permissions.js";
+import { preparePrompt } from "../src/prompt-transport.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+const fake = createFakePi();
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  // Loads the configuration (agent path) the stream uses.
+  await extension(fake.pi);
+});
+
+afterAll(() => agent.restore());
+
+const context = (text = "hello"): Context => ({ messages: [{ role: "user", content: text, timestamp: 0 }] });
+
+function finalMessage(events: Awaited<ReturnType<typeof collect>>): AssistantMessage {
+  const last = events.at(-1);
+  if (last?.type === "done") return last.message;
+  if (last?.type === "error") return last.error;
+  throw new Error(`stream ended with ${last?.type}`);
+}
+
+describe("streamCursorCli", () => {
+  it("streams assistant text and passes the prompt over stdin", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("Hello"), ndjson.assistant(", world"), ndjson.result()] } });
+
+    const events = await collect(streamCursorCli(cursorModel(), context("say hi"), {}));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "start",
+      "text_start",
+      "text_delta",
+      "text_delta",
+      "text_end",
+      "done",
+    ]);
+    const message = finalMessage(events);
+    expect(message.stopReason).toBe("stop");
+    expect(message.content).toEqual([{ type: "text", text: "Hello, world" }]);
+
+    const run = agent.invocations().find((i) => i.args.includes("--print"));
+    expect(run?.args).toEqual(expect.arrayContaining(["--output-format", "stream-json", "--model", "auto"]));
+    expect(run?.stdin).toContain("<user>\nsay hi\n</user>");
+  });
+
+  it("renders Cursor tool calls as inline markers", async () => {
+    const args = { command: "npm test" };
+    agent.setScenario({
+      print: {
+        lines: [
+          ndjson.toolCall("started", "shellToolCall", { args }),
+          ndjson.toolCall("completed", "shellToolCall", { args, result: { success: { exitCode: 0, stdout: "ok" } } }),
+          ndjson.assistant("Tests pass."),
+        ],
+      },
+    });
+
+    const message = finalMessage(await collect(streamCursorCli(cursorModel(), context(), {})));
+
+    expect(message.content).toEqual([
+      { type: "text", text: "\n⏳ [Shell] npm test\n\n✓ [Shell] npm test — exit 0\n```\nok\n```\nTests pass." },
+    ]);
+  });
+
+  it("streams reasoning as a thinking block before the text", async () => {
+    agent.setScenario({
+      print: {
+        lines: [
+          { type: "thinking", subtype: "delta", text: "Let me ", session_id: "chat-1" },
+          { type: "thinking", subtype: "delta", text: "check.", session_id: "chat-1" },
+          { type: "thinking", subtype: "completed", session_id: "chat-1" },
+          ndjson.assistant("Done."),
+          ndjson.result(),
+        ],
+      },
+    });
+
+    const events = await collect(streamCursorCli(cursorModel(), context(), {}));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "start",
+      "thinking_start",
+      "thinking_delta",
+      "thinking_delta",
+      "thinking_end",
+      "text_start",
+      "text_delta",
+      "text_end",
+      "done",
+    ]);
+    expect(finalMessage(events).content).toMatchObject([
+      { type: "thinking", thinking: "Let me check." },
+      { type: "text", text: "Done." },
+    ]);
+  });
+
+  it("skips malformed lines", async () => {
+    agent.setScenario({ print: { lines: ["not json", "{\"type\":", ndjson.assistant("still here")] } });
+
+    const message = finalMessage(await collect(streamCursorCli(cursorModel(), context(), {})));
+
+    expect(message.stopReason).toBe("stop");
+    expect(message.content).toEqual([{ type: "text", text: "still here" }]);
+  });
+
+  it("reports a non-zero exit without output as an error", async () => {
+    agent.setScenario({ print: { stderr: "Error: not authenticated\n", exitCode: 1 } });
+
+    const events = await collect(streamCursorCli(cursorModel(), context(), {}));
+
+    expect(events.at(-1)?.type).toBe("error");
+    const message = finalMessage(events);
+    expect(message.stopReason).toBe("error");
+    expect(message.errorMessage).toBe(
+      "Error: not authenticated\n\nCursor is not logged in — run /cursor-login (or set CURSOR_API_KEY) and try again.",
+    );
+  });
+
+  it("reports an error result even after partial text", async () => {
+    agent.setScenario({
+      print: {
+        lines: [ndjson.assistant("Half an answer"), ndjson.result("error", { is_error: true, result: "Model overloaded" })],
+      },
+    });
+
+    const message = finalMessage(await collect(streamCursorCli(cursorModel(), context(), {})));
+
+    expect(message.stopReason).toBe("error");
+    expect(message.errorMessage).toBe('Cursor CLI reported "error": Model overloaded');
+    expect(message.content).toEqual([{ type: "text", text: "Half an answer" }]);
+  });
+
+  it("keeps the output of a turn cut short by a limit", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("Partial"), ndjson.result("error_max_turns")] } });
+
+    const events = await collect(streamCursorCli(cursorModel(), context(), {}));
+
+    expect(events.at(-1)?.type).toBe("done");
+    expect(finalMessage(events).stopReason).toBe("length");
+  });
+
+  it("includes unexpected output when the CLI exits without a result", async () => {
+    agent.setScenario({
+      print: { lines: [ndjson.assistant("Partial"), { type: "telemetry" }], stderr: "crashed\n", exitCode: 3 },
+    });
+
+    const message = finalMessage(await collect(streamCursorCli(cursorModel(), context(), {})));
+
+    expect(message.stopReason).toBe("error");
+    expect(message.errorMessage).toBe(
+      'crashed\n\nUnexpected CLI output (1):\n  line 2: unknown event type "telemetry": {"type":"telemetry"}',
+    );
+  });
+
+  it("stops the agent when the request is aborted", async () => {
+    agent.setScenario({ print: { lines: [ndjson.assistant("working…")], hang: true } });
+    const controller = new AbortController();
+
+    const events = [];
+    for await (const event of streamCursorCli(cursorModel(), context(), { signal: controller.signal })) {
+      events.push(event);
+      if (event.type === "text_delta") controller.abort();
+    }
+
+    const message = finalMessage(events);
+    expect(message.stopReason).toBe("aborted");
+    expect(message.content).toEqual([{ type: "text", text: "working…" }]);
+  });
+});
+
+describe("session resume", () => {
+  const ok = (text: string) => ({ lines: [ndjson.assistant(text), ndjson.result()] });
+  const printRuns = () => agent.invocations().filter((i) => i.args.includes("--print"));
+
+  /** Answer a first turn in `sessionId` and return the follow-up context. */
+  async function firstTurn(sessionId: string): Promise<Context> {
+    agent.setScenario({ print: ok("First.") });
+    const first = finalMessage(await collect(streamCursorCli(cursorModel(), context(), { sessionId })));
+    return { messages: [...context().messages, first, { role: "user", content: "again", timestamp: 1 }] };
+  }
+
+  it("resumes the chat with only the messages added since the last turn", async () => {
+    const next = await firstTurn("resume-ok");
+    agent.setScenario({ print: ok("Second.") });
+
+    await collect(streamCursorCli(cursorModel(), next, { sessionId: "resume-ok" }));
+
+    const [run] = printRuns();
+    expect(run?.args).toEqual(expect.arrayContaining(["--resume", "chat-1"]));
+    expect(run?.stdin).toContain("again");
+    expect(run?.stdin).not.toContain("hello");
+  });
+
+  it("replays the full transcript when the history no longer matches the chat", async () => {
+    const edits: Array<(next: Context) => Context> = [
+      (next) => ({ messages: [{ role: "user", content: "hello, edited", timestamp: 0 }, ...next.messages.slice(1)] }),
+      (next) => ({ ...next, systemPrompt: "Be brief." }),
+    ];
+    for (const [i, edit] of edits.entries()) {
+      const next = edit(await firstTurn(`mismatch-${i}`));
+      agent.setScenario({ print: ok("Second.") });
+
+      await collect(streamCursorCli(cursorModel(), next, { sessionId: `mismatch-${i}` }));
+
+      const [run] = printRuns();
+      expect(run?.args).not.toContain("--resume");
+      expect(run?.stdin).toContain("hello");
+      expect(run?.stdin).toContain("again");
+    }
+  });
+
+  it("falls back to a full transcript when a resumed chat fails without an exit code", async () => {
+    const stale = [
+      { lines: [ndjson.result("error", { is_error: true, result: "Chat not found" })] },
+      { lines: [] },
+    ];
+    for (const [i, failure] of stale.entries()) {
+      const next = await firstTurn(`stale-${i}`);
+      agent.setScenario({ printSequence: [failure, ok("Second.")] });
+
+      const message = finalMessage(await collect(streamCursorCli(cursorModel(), next, { sessionId: `stale-${i}` })));
+
+      expect(message.content).toEqual([{ type: "text", text: "Second." }]);
+      const [resumed, replayed] = printRuns();
+      expect(resumed?.args).toEqual(expect.arrayContaining(["--resume", "chat-1"]));
+      expect(resumed?.stdin).not.toContain("hello");
+      expect(replayed?.args).not.toContain("--resume");
+      expect(replayed?.stdin).toContain("hello");
+    }
+  });
+});
+
+describe("prompt transport", () => {
+  it("writes the prompt to a file in the workspace for a CLI without stdin prompts", async () => {
+    const path = process.env["PATH"];
+    // The version probe is cached per binary and PATH; a new PATH probes again.
+    process.env["PATH"] = `${path}:${agent.dir}`;
+    try {
+      agent.setScenario({ version: "2025.11.20-old", print: { lines: [ndjson.assistant("Read it."), ndjson.result()] } });
+
+      const message = finalMessage(await collect(streamCursorCli(cursorModel(), context("from a file"), {})));
+
+      expect(message.content).toEqual([{ type: "text", text: "Read it." }]);
+      const run = agent.invocations().find((i) => i.args.includes("--print"));
+      expect(run?.stdin).toBe("");
+      const prompts = join(process.cwd(), ".pi", "cursor-prompts");
+      expect(run?.args.at(-1)).toMatch(new RegExp(`in the file ${prompts}/prompt-\\w+/prompt\\.md`));
+      expect(existsSync(prompts)).toBe(false);
+    } finally {
+      process.env["PATH"] = path;
+    }
+  });
+});
+
+describe("prompt transport choice", () => {
+  let probes = 0;
+  /** A target whose PATH differs each time, so the version is probed again. */
+  const target = (workspace: string) => ({
+    agentPath: process.env.CURSOR_AGENT_PATH ?? "",
+    env: { ...process.env, PATH: `${process.env.PATH}:/probe-${probes++}` },
+    workspace,
+  });
+
+  it("uses stdin from the first CLI version that reads it, and a file before", async () => {
+    const workspace = mkdtempSync(join(tmpdir(), "pi-cursor-transport-"));
+    try {
+      for (const [version, kind] of [
+        ["2026.02.13", "stdin"],
+        ["2026.3.1-abc", "stdin"],
+        ["2026.02.12", "file"],
+        ["not a version", "file"],
+      ]) {
+        agent.setScenario({ version });
+        const prompt = await preparePrompt(target(workspace), "the prompt");
+        expect([version, prompt.kind]).toEqual([version, kind]);
+        if (prompt.kind === "file") {
+          const file = /in the file (\S+prompt\.md)\./.exec(prompt.arg ?? "")?.[1] ?? "";
+          expect(readFileSync(file, "utf8")).toBe("the prompt");
+        }
+        await prompt.cleanup();
+      }
+      expect(existsSync(join(workspace, ".pi"))).toBe(false);
+
+      agent.setScenario({ version: "2025.11.20-old" });
+      expect((await preparePrompt(target(workspace), "the prompt", "stdin")).kind).toBe("stdin");
+      await expect(preparePrompt(target(workspace), "x".repeat(3 * 1024 * 1024))).rejects.toThrow(
+        /too large to pass through a temp file .* Cursor Agent CLI 2025\.11\.20 cannot read prompts from stdin/,
+      );
+    } finally {
+      rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("ask permission profile", () => {
+  const npmTest = { args: { command: "npm test" } };
+  const rejected = [
+    ndjson.toolCall("started", "shellToolCall", npmTest),
+    ndjson.toolCall("completed", "shellToolCall", { ...npmTest, result: { rejected: { reason: "Shell(*) is denied" } } }),
+    ndjson.assistant("I could not run the tests."),
+    ndjson.result(),
+  ];
+  const printRuns = () => agent.invocations().filter((i) => i.args.includes("--print"));
+
+  /** Run a turn in `ask` mode, answering every approval dialog with `answer`. */
+  async function askTurn(answer: boolean): Promise<{ message: AssistantMessage; dialogs: string[][] }> {
+    const dialogs: string[][] = [];
+    const ui = { confirm: async (title: string, body: string) => dialogs.push([title, body]) > 0 && answer, setStatus() {} };
+    await fake.handlers.get("turn_start")?.({ type: "turn_start" }, { hasUI: true, ui } as unknown as ExtensionContext);
+    setPermissionProfile("ask");
+    try {
+      return { message: finalMessage(await collect(streamCursorCli(cursorModel(), context("test it"), {}))), dialogs };
+    } finally {
+      setPermissionProfile("full");
+    }
+  }
+
+  it("re-issues a rejected call the user approved in the resumed chat", async () => {
+    agent.setScenario({
+      printSequence: [
+        { lines: rejected },
+        {
+          lines: [
+            ndjson.toolCall("completed", "shellToolCall", { ...npmTest, result: { success: { exitCode: 0 } } }),
+            ndjson.assistant("The tests pass."),
+            ndjson.result(),
+          ],
+        },
+      ],
+    });
+
+    const { message, dialogs } = await askTurn(true);
+
+    expect(dialogs).toEqual([["Allow Cursor to use Shell?", "npm test\n\nThis allows Shell(npm) for the rest of the turn."]]);
+    expect(message.stopReason).toBe("stop");
+    const text = message.content.map((c) => (c.type === "text" ? c.text : "")).join("");
+    expect(text).toContain("⊘ [Shell] npm test — rejected: Shell(*) is denied");
+    expect(text).toContain("✓ [Shell] npm test — exit 0");
+    expect(text).toContain("The tests pass.");
+
+    const [first, second] = printRuns();
+    expect(first?.args).not.toContain("--trust");
+    expect(first?.config.cli?.permissions).toEqual({ allow: ["Read(**)"], deny: ["Shell(*)", "Write(**)", "WebFetch(*)"] });
+    expect(second?.args).toEqual(expect.arrayContaining(["--resume", "chat-1"]));
+    expect(second?.args).not.toContain("--trust");
+    expect(second?.stdin).toContain("- [Shell] npm test");
+    expect(second?.config.cli?.permissions).toEqual({ allow: ["Read(**)", "Shell(npm)"], deny: ["Write(**)", "WebFetch(*)"] });
+  });
+
+  it("stops the turn when the user denies a rejected call", async () => {
+    agent.setScenario({ print: { lines: rejected } });
+
+    const { message } = await askTurn(false);
+
+    expect(message.stopReason).toBe("error");
+    expect(message.errorMessage).toBe('Turn stopped: [Shell] npm test was denied (permission profile "ask").');
+    expect(printRuns()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Context } from "@mariozechner/pi-ai";
+import type { ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+let workspace: string;
+const fake = createFakePi();
+const notes: string[] = [];
+const ctx = {
+  hasUI: false,
+  ui: { notify: (text: string) => notes.push(text), setStatus: () => {} },
+} as unknown as ExtensionContext & ExtensionCommandContext;
+
+beforeAll(async () => {
+  agent = installFakeAgent();
+  workspace = mkdtempSync(join(tmpdir(), "pi-cursor-undo-"));
+  writeFileSync(join(workspace, "a.txt"), "original\n");
+  const git = (...args: string[]) => execFileSync("git", ["-C", workspace, ...args], { stdio: "ignore" });
+  git("init", "-q");
+  git("add", "a.txt");
+  git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "initial");
+  process.env["CURSOR_WORKSPACE"] = workspace;
+  await extension(fake.pi);
+  await fake.handlers.get("turn_start")?.({ type: "turn_start" }, ctx);
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+  agent.restore();
+});
+
+const context: Context = { messages: [{ role: "user", content: "edit", timestamp: 0 }] };
+
+/**
+ * One turn in which the agent changes each file before Pi reads the tool
+ * call announcing it, as happens when its output is buffered.
+ */
+async function turn(files: Record<string, string>): Promise<void> {
+  const lines = Object.entries(files).flatMap(([path, content]) => [
+    { writeFiles: { [path]: content } },
+    ndjson.toolCall("started", "writeToolCall", { args: { path } }),
+  ]);
+  agent.setScenario({ print: { lines: [...lines, ndjson.assistant("Done."), ndjson.result()] } });
+  await collect(streamCursorCli(cursorModel(), context, {}));
+}
+
+const read = (path: string) => readFileSync(join(workspace, path), "utf8");
+
+describe("file history", () => {
+  it("lists the files a turn changed and undoes the last N turns", async () => {
+    await turn({ "a.txt": "first\n" });
+    expect(notes.at(-1)).toBe("Cursor changed 1 file(s) — /cursor-undo restores them:\n  M a.txt");
+
+    await turn({ "a.txt": "second\n", "new/b.txt": "added\n" });
+    expect(notes.at(-1)).toContain("  M a.txt\n  A new/b.txt");
+
+    const undo = fake.commands.get("cursor-undo");
+    await undo?.handler("", ctx);
+    expect(notes.at(-1)).toBe("Restored 2 file(s).");
+    expect(read("a.txt")).toBe("first\n");
+    expect(existsSync(join(workspace, "new/b.txt"))).toBe(false);
+
+    await turn({ "a.txt": "third\n" });
+    await undo?.handler("2", ctx);
+    expect(read("a.txt")).toBe("original\n");
+
+    await undo?.handler("", ctx);
+    expect(notes.at(-1)).toBe("Nothing to undo — no Cursor turn has changed files yet.");
+  });
+
+  it("lists an untracked file changed before it was read as not undoable", async () => {
+    writeFileSync(join(workspace, "notes.txt"), "untracked\n");
+    await turn({ "notes.txt": "rewritten by the agent\n" });
+    expect(notes.at(-1)).toContain("  M notes.txt (cannot undo: changed before it could be snapshotted)");
+  });
+});
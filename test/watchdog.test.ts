@@ -0,0 +1,67 @@
+import type { AssistantMessage, Context } from "@mariozechner/pi-ai";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import extension, { streamCursorCli } from "../index.js";
+import { collect, createFakePi, cursorModel, type FakeAgent, installFakeAgent, ndjson } from "./helpers.js";
+
+let agent: FakeAgent;
+
+beforeAll(() => {
+  agent = installFakeAgent();
+});
+
+afterAll(() => agent.restore());
+
+const context: Context = { messages: [{ role: "user", content: "hello", timestamp: 0 }] };
+
+/** Reload the provider configuration with the given env overrides. */
+async function configure(env: Record<string, string>): Promise<void> {
+  for (const name of ["CURSOR_IDLE_TIMEOUT_MS", "CURSOR_TURN_TIMEOUT_MS", "CURSOR_KILL_GRACE_MS", "CURSOR_RETRY_BASE_DELAY_MS"]) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, env);
+  await extension(createFakePi().pi);
+}
+
+async function run(): Promise<AssistantMessage> {
+  const last = (await collect(streamCursorCli(cursorModel(), context, {}))).at(-1);
+  if (last?.type !== "error") throw new Error(`stream ended with ${last?.type}`);
+  return last.error;
+}
+
+describe("turn watchdog", () => {
+  it("stops an agent that stays silent for idleTimeoutMs", async () => {
+    await configure({ CURSOR_IDLE_TIMEOUT_MS: "300" });
+    agent.setScenario({ print: { lines: [ndjson.assistant("thinking…")], hang: true } });
+
+    const message = await run();
+
+    expect(message.errorMessage).toBe("Cursor agent stopped: no output for 0.3s (idleTimeoutMs).");
+    expect(message.content).toEqual([{ type: "text", text: "thinking…" }]);
+  });
+
+  it("stops a turn that runs longer than turnTimeoutMs despite steady output", async () => {
+    await configure({ CURSOR_IDLE_TIMEOUT_MS: "1000", CURSOR_TURN_TIMEOUT_MS: "400" });
+    const lines = Array.from({ length: 40 }, () => ndjson.assistant("."));
+    agent.setScenario({ print: { lines, delayMs: 50 } });
+
+    expect((await run()).errorMessage).toBe("Cursor turn timed out after 0.4s (turnTimeoutMs).");
+  });
+
+  it("counts retries towards the same turnTimeoutMs", async () => {
+    await configure({ CURSOR_IDLE_TIMEOUT_MS: "5000", CURSOR_TURN_TIMEOUT_MS: "1500", CURSOR_RETRY_BASE_DELAY_MS: "500" });
+    agent.setScenario({ printSequence: [{ stderr: "429 Too Many Requests\n", exitCode: 1 }, { hang: true }] });
+
+    const started = Date.now();
+    expect((await run()).errorMessage).toBe("Cursor turn timed out after 1.5s (turnTimeoutMs).");
+    // A limit re-armed for the retry would only fire 500ms + 1500ms in.
+    expect(Date.now() - started).toBeLessThan(1900);
+  });
+
+  it("kills the whole process group and escalates to SIGKILL", async () => {
+    await configure({ CURSOR_IDLE_TIMEOUT_MS: "300", CURSOR_KILL_GRACE_MS: "200" });
+    // The helper keeps stdout open, so the stream only ends once it is killed too.
+    agent.setScenario({ print: { hang: true, spawnChild: true, ignoreSigterm: true } });
+
+    expect((await run()).errorMessage).toContain("(idleTimeoutMs)");
+  }, 10_000);
+});